@@ -0,0 +1,209 @@
+// Small signing proxy for the Marvel API. It keeps the private key on the server,
+// signs each request, and adds a response cache and per-client rate limiting.
+//
+//   MARVEL_PUBLIC_KEY=... MARVEL_PRIVATE_KEY=... npm run proxy
+//
+// Then build the app with REACT_APP_MARVEL_PROXY_URL=http://localhost:8787 and no private key.
+// Needs Node 18 or later for the global fetch.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const publicKey = process.env.MARVEL_PUBLIC_KEY ?? '';
+const privateKey = process.env.MARVEL_PRIVATE_KEY ?? '';
+const port = Number(process.env.PORT ?? 8787);
+const allowedOrigin = process.env.ALLOWED_ORIGIN ?? '*';
+const cacheTtlMs = Number(process.env.CACHE_TTL_MS ?? 10 * 60 * 1000);
+const rateLimitPerMinute = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 60);
+const maxCacheEntries = Number(process.env.CACHE_MAX_ENTRIES ?? 1000);
+// Only behind a reverse proxy that sets X-Forwarded-For itself; otherwise clients could pick their own id.
+const trustProxy = process.env.TRUST_PROXY === 'true';
+const upstreamBase = 'https://gateway.marvel.com/v1/public';
+
+const RESOURCE = '(characters|comics|creators|events|series|stories)';
+const ALLOWED_PATH = new RegExp(`^/${RESOURCE}(/\\d+(/${RESOURCE})?)?$`);
+const AUTH_PARAMS = ['ts', 'apikey', 'hash'];
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_RATE_CLIENTS = 10000;
+
+const cache = new Map();
+const rateWindows = new Map();
+
+if (typeof fetch !== 'function') {
+  console.error(`The proxy needs Node 18 or later for fetch; this is ${process.version}.`);
+  process.exit(1);
+}
+
+if (!publicKey || !privateKey) {
+  console.error('MARVEL_PUBLIC_KEY and MARVEL_PRIVATE_KEY must be set.');
+  process.exit(1);
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': allowedOrigin,
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+const sendJson = (res, status, payload, headers = {}) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+// Mirrors the Marvel error body so the client maps proxy failures the same way as API failures.
+const sendError = (res, status, message) => sendJson(res, status, { code: status, status: message });
+
+// Maps keep insertion order, so the first entries are the oldest. Entries that are refreshed get re-inserted.
+const evictOldest = (map, maxEntries) => {
+  for (const key of map.keys()) {
+    if (map.size <= maxEntries) {
+      break;
+    }
+    map.delete(key);
+  }
+};
+
+const pruneExpired = () => {
+  const now = Date.now();
+  cache.forEach((entry, key) => {
+    if (now - entry.storedAt >= cacheTtlMs) {
+      cache.delete(key);
+    }
+  });
+  rateWindows.forEach((window, clientId) => {
+    if (now - window.startedAt >= RATE_WINDOW_MS) {
+      rateWindows.delete(clientId);
+    }
+  });
+};
+
+const isRateLimited = (clientId) => {
+  const now = Date.now();
+  const window = rateWindows.get(clientId);
+
+  if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+    rateWindows.delete(clientId);
+    rateWindows.set(clientId, { startedAt: now, count: 1 });
+    evictOldest(rateWindows, MAX_RATE_CLIENTS);
+    return false;
+  }
+
+  window.count += 1;
+  return window.count > rateLimitPerMinute;
+};
+
+const buildUpstreamUrl = (pathname, searchParams) => {
+  const url = new URL(upstreamBase + pathname);
+  searchParams.forEach((value, key) => {
+    if (!AUTH_PARAMS.includes(key)) {
+      url.searchParams.append(key, value);
+    }
+  });
+  url.searchParams.sort();
+
+  return url;
+};
+
+const signUrl = (url) => {
+  const signed = new URL(url);
+  const ts = Date.now().toString();
+  signed.searchParams.set('ts', ts);
+  signed.searchParams.set('apikey', publicKey);
+  signed.searchParams.set('hash', crypto.createHash('md5').update(ts + privateKey + publicKey).digest('hex'));
+  return signed;
+};
+
+const respondFromCache = (req, res, entry) => {
+  if (entry.etag && req.headers['if-none-match'] === entry.etag) {
+    res.writeHead(304, { ...corsHeaders, ETag: entry.etag });
+    res.end();
+    return;
+  }
+
+  res.writeHead(entry.status, {
+    ...corsHeaders,
+    'Content-Type': 'application/json; charset=utf-8',
+    ...(entry.etag ? { ETag: entry.etag } : {}),
+  });
+  res.end(entry.body);
+};
+
+const handleRequest = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendError(res, 405, 'Only GET requests are proxied.');
+    return;
+  }
+
+  const requestUrl = new URL(req.url ?? '/', 'http://localhost');
+  const pathname = requestUrl.pathname.replace(/^\/v1\/public/, '').replace(/\/+$/, '');
+
+  if (!ALLOWED_PATH.test(pathname)) {
+    sendError(res, 404, 'Unknown Marvel resource.');
+    return;
+  }
+
+  const forwardedFor = trustProxy ? req.headers['x-forwarded-for']?.toString().split(',')[0].trim() : '';
+  const clientId = forwardedFor || req.socket.remoteAddress || '';
+  if (isRateLimited(clientId)) {
+    sendJson(
+      res,
+      429,
+      { code: 429, status: 'Too many requests through the proxy. Slow down and try again shortly.' },
+      { 'Retry-After': '60' }
+    );
+    return;
+  }
+
+  const upstreamUrl = buildUpstreamUrl(pathname, requestUrl.searchParams);
+  const cacheKey = upstreamUrl.toString();
+  const cached = cache.get(cacheKey);
+
+  if (cached && Date.now() - cached.storedAt < cacheTtlMs) {
+    respondFromCache(req, res, cached);
+    return;
+  }
+
+  try {
+    const upstream = await fetch(signUrl(upstreamUrl), {
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+    });
+
+    if (upstream.status === 304 && cached) {
+      cached.storedAt = Date.now();
+      cache.delete(cacheKey);
+      cache.set(cacheKey, cached);
+      respondFromCache(req, res, cached);
+      return;
+    }
+
+    const body = await upstream.text();
+    const etag = upstream.headers.get('etag');
+
+    if (upstream.ok) {
+      cache.delete(cacheKey);
+      cache.set(cacheKey, { status: upstream.status, body, etag, storedAt: Date.now() });
+      evictOldest(cache, maxCacheEntries);
+    }
+
+    respondFromCache(req, res, { status: upstream.status, body, etag });
+  } catch (err) {
+    sendError(res, 502, 'Could not reach the Marvel API.');
+  }
+};
+
+setInterval(pruneExpired, RATE_WINDOW_MS).unref();
+
+http
+  .createServer((req, res) => {
+    handleRequest(req, res);
+  })
+  .listen(port, () => {
+    console.log(`Marvel proxy listening on http://localhost:${port}`);
+  });
@@ -1,9 +1,304 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
 import App from './App';
+import * as marvelApi from './api/marvel';
+import type { MarvelCharacter } from './api/marvel';
+import charactersFixture from './api/fixtures/characters.json';
+import { indexCharacters } from './utils/characterIndex';
+import { loadSearchHistory } from './utils/searchHistory';
 
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  );
+
+test('renders the app header and navigation', () => {
+  renderAt('/list');
+  expect(screen.getByRole('heading', { name: /marvel character explorer/i })).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Gallery' })).toBeInTheDocument();
+});
+
+test('searches characters against the fixture data source', async () => {
+  renderAt('/list');
+  userEvent.type(screen.getByLabelText('Search characters'), 'spi');
+
+  expect(await screen.findByRole('heading', { name: 'Spider-Man' })).toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: 'Spider-Girl (May Parker)' })).toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Iron Man' })).not.toBeInTheDocument();
+});
+
+test('sorts every match by counts with a tie-breaker', async () => {
+  renderAt('/list?q=s&sort=events-asc');
+
+  expect(await screen.findByRole('heading', { name: 'Storm' })).toBeInTheDocument();
+  userEvent.click(screen.getByRole('button', { name: 'Add tie-breaker' }));
+  userEvent.selectOptions(screen.getByLabelText('Tie-breaker 1'), 'comics-desc');
+
+  await waitFor(() =>
+    expect(screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent)).toEqual([
+      'Spider-Girl (May Parker)',
+      'Spider-Ham (Larval Earth)',
+      'Storm',
+      'Spider-Man',
+    ])
+  );
+});
+
+test('ranks fuzzy search results and highlights the matched fragment', async () => {
+  renderAt('/list?match=fuzzy&q=spider');
+
+  const [topResult] = await screen.findAllByRole('heading', { level: 3 });
+  expect(topResult).toHaveTextContent(/^Spider-Man$/);
+  expect(within(topResult).getByText('Spider')).toHaveClass('highlighted-text');
+  expect(screen.getByLabelText('Sort characters')).toBeDisabled();
+  expect(screen.queryByRole('button', { name: 'Next' })).not.toBeInTheDocument();
+});
+
+test('loads a character detail page with no network', async () => {
+  renderAt('/detail/1009368');
+  expect(await screen.findByRole('heading', { name: 'Iron Man' })).toBeInTheDocument();
+});
+
+test('pages through a character relationship tab', async () => {
+  renderAt('/detail/1009718?tab=series');
+  const panel = await screen.findByRole('tabpanel');
+  expect(await within(panel).findAllByRole('link')).not.toHaveLength(0);
+  expect(screen.getByRole('tab', { name: /series/i })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('shows a cached relationship tab again after leaving a tab that was still loading', async () => {
+  const actual = marvelApi.getResourceCollection;
+  const spy = jest
+    .spyOn(marvelApi, 'getResourceCollection')
+    .mockImplementation(((uri: string, params) =>
+      uri.includes('/series') ? new Promise(() => undefined) : actual(uri, params)) as typeof actual);
+
+  renderAt('/detail/1009718');
+  const panel = await screen.findByRole('tabpanel');
+  const comics = await within(panel).findAllByRole('link');
+
+  userEvent.click(screen.getByRole('tab', { name: /series/i }));
+  expect(await within(panel).findByText(/loading series/i)).toBeInTheDocument();
+  userEvent.click(screen.getByRole('tab', { name: /comics/i }));
+
+  expect(await within(panel).findAllByRole('link')).toHaveLength(comics.length);
+  expect(within(panel).queryByText(/loading/i)).not.toBeInTheDocument();
+  spy.mockRestore();
+});
+
+test('filters the gallery by series on the server side', async () => {
+  renderAt('/gallery?series=2258');
+
+  expect(await screen.findByRole('heading', { name: 'Storm' })).toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: 'Cyclops' })).toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Iron Man' })).not.toBeInTheDocument();
+});
+
+test('stops showing a filter search that was cleared before it finished', async () => {
+  const spy = jest.spyOn(marvelApi, 'getSeries').mockImplementation(() => new Promise(() => undefined));
+  renderAt('/gallery');
+  const input = screen.getByRole('searchbox', { name: 'Find series to filter by' });
+  userEvent.type(input, 'uncanny');
+
+  expect(await screen.findByText('Searching…')).toBeInTheDocument();
+  userEvent.clear(input);
+  expect(screen.queryByText('Searching…')).not.toBeInTheDocument();
+  spy.mockRestore();
+});
+
+test('intersects gallery filters in match-all mode', async () => {
+  renderAt('/gallery?series=2258&series=2021&mode=all');
+
+  expect(await screen.findByRole('heading', { name: 'Wolverine' })).toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Storm' })).not.toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Hulk' })).not.toBeInTheDocument();
+});
+
+test('imports a pasted list and flags ambiguous names', async () => {
+  renderAt('/import');
+  userEvent.type(screen.getByLabelText('Character names or ids'), 'Storm{enter}1009368{enter}Spider');
+  userEvent.click(screen.getByRole('button', { name: 'Resolve characters' }));
+
+  expect(await screen.findByRole('link', { name: 'Iron Man' })).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Storm' })).toBeInTheDocument();
+  expect(await screen.findByRole('button', { name: 'Spider-Man' })).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Open 2 in gallery' })).toHaveAttribute('href', '/gallery?ids=1009629,1009368');
+});
+
+test('opens the command palette with Ctrl+K and jumps to a character', async () => {
+  renderAt('/list');
+  userEvent.keyboard('{Control>}k{/Control}');
+  userEvent.type(screen.getByRole('combobox', { name: 'Search characters and pages' }), 'thor');
+
+  userEvent.click(await screen.findByRole('option', { name: /^Thor/ }));
+  expect(await screen.findByRole('heading', { name: 'Thor' })).toBeInTheDocument();
+});
+
+test('stops showing a palette search that was cleared before it finished', async () => {
+  const spy = jest.spyOn(marvelApi, 'getCharacters').mockImplementation(() => new Promise(() => undefined));
+  renderAt('/list');
+  userEvent.keyboard('{Control>}k{/Control}');
+  const input = screen.getByRole('combobox', { name: 'Search characters and pages' });
+  userEvent.type(input, 'thor');
+
+  expect(await screen.findByText('Searching characters…')).toBeInTheDocument();
+  userEvent.clear(input);
+  expect(screen.queryByText('Searching characters…')).not.toBeInTheDocument();
+  spy.mockRestore();
+});
+
+test('moves to the next neighbor with the J key on a detail page', async () => {
+  render(
+    <MemoryRouter
+      initialEntries={[
+        {
+          pathname: '/detail/1009368',
+          state: {
+            neighbors: [
+              { id: 1009368, name: 'Iron Man' },
+              { id: 1009664, name: 'Thor' },
+            ],
+          },
+        },
+      ]}
+    >
+      <App />
+    </MemoryRouter>
+  );
+
+  expect(await screen.findByRole('heading', { name: 'Iron Man' })).toBeInTheDocument();
+  userEvent.keyboard('j');
+  expect(await screen.findByRole('heading', { name: 'Thor' })).toBeInTheDocument();
+});
+
+test('autocompletes known names from the keyboard and remembers the search', async () => {
+  renderAt('/list');
+  const input = screen.getByRole('combobox', { name: 'Search characters' });
+  userEvent.type(input, 'wolv');
+  expect(await screen.findByRole('heading', { name: 'Wolverine' })).toBeInTheDocument();
+
+  userEvent.keyboard('{arrowdown}');
+  expect(input).toHaveAttribute('aria-expanded', 'true');
+  const suggestions = screen.getByRole('listbox', { name: 'Search characters suggestions' });
+  expect(within(suggestions).getByRole('option', { selected: true })).toHaveTextContent('Wolverine');
+
+  userEvent.keyboard('{enter}');
+  expect(input).toHaveValue('Wolverine');
+  expect(input).toHaveAttribute('aria-expanded', 'false');
+
+  const recent = screen.getByRole('region', { name: 'Recent searches' });
+  userEvent.click(within(recent).getByRole('button', { name: 'Pin Wolverine' }));
+  expect(within(recent).getByRole('button', { name: 'Pin Wolverine' })).toHaveAttribute('aria-pressed', 'true');
+});
+
+test('records a search when a result is opened but not when it is compared', async () => {
+  renderAt('/list?q=storm');
+  const recorded = () => loadSearchHistory().recent.map((entry) => entry.query);
+
+  userEvent.click(await screen.findByRole('checkbox', { name: 'Compare Storm' }));
+  expect(recorded()).not.toContain('storm');
+
+  userEvent.click(screen.getByRole('heading', { name: 'Storm' }));
+  expect(await screen.findByRole('navigation', { name: 'Neighboring characters' })).toBeInTheDocument();
+  expect(recorded()).toContain('storm');
+});
+
+test('restores search neighbors from the detail URL after a reload', async () => {
+  renderAt(`/detail/1019609?${new URLSearchParams({ from: '/list?q=spi', at: '1' })}`);
+
+  expect(await screen.findByRole('heading', { name: 'Spider-Ham (Larval Earth)' })).toBeInTheDocument();
+  expect(await screen.findByText("2 of 3 in 'spi' search")).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Back to Search' })).toHaveAttribute('href', '/list?q=spi');
+
+  const neighbors = screen.getByRole('navigation', { name: 'Neighboring characters' });
+  await waitFor(() => expect(within(neighbors).getByRole('button', { name: 'Next' })).toBeEnabled());
+  userEvent.click(within(neighbors).getByRole('button', { name: 'Next' }));
+
+  expect(await screen.findByRole('heading', { name: 'Spider-Man' })).toBeInTheDocument();
+  expect(await screen.findByText("3 of 3 in 'spi' search")).toBeInTheDocument();
+  expect(
+    within(screen.getByRole('navigation', { name: 'Neighboring characters' })).getByRole('button', { name: 'Next' })
+  ).toBeDisabled();
+});
+
+test('ignores a detail page origin that leads outside the app', async () => {
+  for (const from of ['https://evil.example/phish', '//evil.example', '/\\evil.example']) {
+    const { unmount } = renderAt(`/detail/1009368?${new URLSearchParams({ from })}`);
+
+    expect(await screen.findByRole('heading', { name: 'Iron Man' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Back to Gallery' })).toHaveAttribute('href', '/gallery');
+    unmount();
+  }
+});
+
+test('links the series and events two compared characters share', async () => {
+  renderAt('/compare?ids=1009610,1009368,1009610');
+
+  expect(await screen.findByRole('link', { name: 'Secret Wars (1984 - 1985)' })).toHaveAttribute('href', '/series/2323');
+  expect(screen.getByRole('link', { name: 'Civil War' })).toHaveAttribute('href', '/events/238');
+  expect(screen.getByRole('link', { name: /Spider-Man/ })).toHaveAttribute(
+    'href',
+    expect.stringContaining(encodeURIComponent('/compare?ids=1009610,1009368'))
+  );
+});
+
+test('charts appearances per year and lists the comics for a clicked year', async () => {
+  renderAt('/timeline/1009610');
+
+  expect(await screen.findByRole('heading', { name: 'Spider-Man: Appearances by Year' })).toBeInTheDocument();
+  userEvent.click(screen.getByRole('button', { name: '1963: 1 comic' }));
+
+  const panel = screen.getByRole('region', { name: 'Selected year' });
+  expect(within(panel).getByRole('link', { name: /Amazing Spider-Man \(1963\) #1$/ })).toHaveAttribute(
+    'href',
+    '/comics/6482'
+  );
+  expect(screen.getByRole('button', { name: '1963: 1 comic' })).toHaveAttribute('aria-pressed', 'true');
+});
+
+test('links statistics charts into the filtered gallery', async () => {
+  indexCharacters(charactersFixture as MarvelCharacter[]);
+  renderAt('/stats');
+
+  const lookup = jest.spyOn(marvelApi, 'getCharacterById');
+  const tiers = screen.getByRole('list', { name: 'Characters per activity tier' });
+  const legends = within(tiers).getByRole('link', { name: /^Legends \(1,000\+ comics\): \d+ characters$/ });
+  const count = legends.getAttribute('aria-label')?.match(/(\d+) characters$/)?.[1];
+  userEvent.click(legends);
+
+  expect(await screen.findByText(`Showing the ${count} characters loaded in this browser.`)).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Legends (1,000+ comics)' })).toHaveClass('gallery-view__chip--active');
+
+  userEvent.click(screen.getByRole('link', { name: 'Stats' }));
+  const missing = screen.getByRole('list', { name: 'Characters with missing data' });
+  userEvent.click(within(missing).getByRole('link', { name: /^No description: \d+ characters$/ }));
+
+  expect(await screen.findByText(/characters loaded in this browser without a description\.$/)).toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: 'Black Widow' })).toBeInTheDocument();
+  expect(lookup).not.toHaveBeenCalled();
+  lookup.mockRestore();
+});
+
+test('applies tiers edited on the settings page to the gallery chips', async () => {
+  renderAt('/settings');
+
+  const name = screen.getAllByLabelText('Name')[0];
+  userEvent.clear(name);
+  userEvent.type(name, 'Icons');
+  userEvent.selectOptions(screen.getAllByLabelText('Metric')[0], 'events');
+  userEvent.clear(screen.getAllByLabelText('Minimum')[0]);
+  userEvent.type(screen.getAllByLabelText('Minimum')[0], '20');
+  userEvent.click(screen.getByRole('link', { name: 'Gallery' }));
+
+  expect(await screen.findByRole('heading', { name: 'Character Gallery' })).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Icons (20+ events)' })).toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: /^Legends/ })).not.toBeInTheDocument();
+
+  userEvent.click(screen.getByRole('link', { name: 'Settings' }));
+  userEvent.click(await screen.findByRole('button', { name: 'Reset to defaults' }));
+  expect(screen.getAllByLabelText('Name')[0]).toHaveValue('Legends');
 });
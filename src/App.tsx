@@ -2,33 +2,85 @@ import { NavLink, Navigate, Route, Routes } from 'react-router-dom';
 import ListView from './pages/ListView';
 import GalleryView from './pages/GalleryView';
 import DetailView from './pages/DetailView';
+import ComicListView from './pages/ComicListView';
+import ComicDetailView from './pages/ComicDetailView';
+import TeamsView from './pages/TeamsView';
+import CompareView from './pages/CompareView';
+import GraphView from './pages/GraphView';
+import ImportView from './pages/ImportView';
+import ResourceDetailView from './pages/ResourceDetailView';
+import SettingsView from './pages/SettingsView';
+import StatsView from './pages/StatsView';
+import TimelineView from './pages/TimelineView';
+import CommandPalette from './components/CommandPalette';
+import CompareTray from './components/CompareTray';
+import ShortcutHelp from './components/ShortcutHelp';
+import { ActivitySettingsProvider } from './context/ActivitySettingsContext';
+import { CompareProvider } from './context/CompareContext';
+import { RostersProvider } from './context/RostersContext';
 import './App.css';
 
 const App: React.FC = () => {
   return (
-    <div className="app-shell">
-      <header className="app-header">
-        <h1 className="app-title">Marvel Character Explorer</h1>
-        <nav className="app-nav">
-          <NavLink to="/list" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
-            List
-          </NavLink>
-          <NavLink to="/gallery" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
-            Gallery
-          </NavLink>
-        </nav>
-      </header>
+    <ActivitySettingsProvider>
+      <RostersProvider>
+        <CompareProvider>
+          <div className="app-shell">
+            <header className="app-header">
+              <h1 className="app-title">Marvel Character Explorer</h1>
+              <nav className="app-nav">
+                <NavLink to="/list" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  List
+                </NavLink>
+                <NavLink to="/gallery" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Gallery
+                </NavLink>
+                <NavLink to="/comics" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Comics
+                </NavLink>
+                <NavLink to="/teams" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Teams
+                </NavLink>
+                <NavLink to="/import" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Import
+                </NavLink>
+                <NavLink to="/stats" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Stats
+                </NavLink>
+                <NavLink to="/settings" className={({ isActive }) => (isActive ? 'nav-link active' : 'nav-link')}>
+                  Settings
+                </NavLink>
+              </nav>
+            </header>
 
-      <main className="app-content">
-        <Routes>
-          <Route path="/" element={<Navigate to="/list" replace />} />
-          <Route path="/list" element={<ListView />} />
-          <Route path="/gallery" element={<GalleryView />} />
-          <Route path="/detail/:characterId" element={<DetailView />} />
-          <Route path="*" element={<Navigate to="/list" replace />} />
-        </Routes>
-      </main>
-    </div>
+            <main className="app-content">
+              <Routes>
+                <Route path="/" element={<Navigate to="/list" replace />} />
+                <Route path="/list" element={<ListView />} />
+                <Route path="/gallery" element={<GalleryView />} />
+                <Route path="/detail/:characterId" element={<DetailView />} />
+                <Route path="/comics" element={<ComicListView />} />
+                <Route path="/comics/:comicId" element={<ComicDetailView />} />
+                <Route path="/series/:resourceId" element={<ResourceDetailView kind="series" />} />
+                <Route path="/events/:resourceId" element={<ResourceDetailView kind="events" />} />
+                <Route path="/stories/:resourceId" element={<ResourceDetailView kind="stories" />} />
+                <Route path="/teams" element={<TeamsView />} />
+                <Route path="/compare" element={<CompareView />} />
+                <Route path="/import" element={<ImportView />} />
+                <Route path="/stats" element={<StatsView />} />
+                <Route path="/settings" element={<SettingsView />} />
+                <Route path="/graph/:characterId" element={<GraphView />} />
+                <Route path="/timeline/:characterId" element={<TimelineView />} />
+                <Route path="*" element={<Navigate to="/list" replace />} />
+              </Routes>
+              <CompareTray />
+            </main>
+            <CommandPalette />
+            <ShortcutHelp />
+          </div>
+        </CompareProvider>
+      </RostersProvider>
+    </ActivitySettingsProvider>
   );
 };
 
@@ -0,0 +1,138 @@
+import { getLocalStorage } from '../utils/storage';
+
+export interface CachedResponse<T = unknown> {
+  etag: string | null;
+  body: T;
+  storedAt: number;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  storageKeyPrefix: string;
+  storage: Storage | null;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+const parseTtl = (value: string | undefined): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TTL_MS;
+};
+
+const options: ResponseCacheOptions = {
+  ttlMs: parseTtl(process.env.REACT_APP_MARVEL_CACHE_TTL_MS),
+  storageKeyPrefix: 'marvel-cache:',
+  storage: getLocalStorage(),
+};
+
+const memory = new Map<string, CachedResponse>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+export const configureCache = (overrides: Partial<ResponseCacheOptions>) => {
+  Object.assign(options, overrides);
+};
+
+export const buildCacheKey = (path: string, params: Record<string, unknown> = {}): string => {
+  const query = Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== '')
+    .sort()
+    .map((key) => `${key}=${String(params[key])}`)
+    .join('&');
+
+  return query ? `${path}?${query}` : path;
+};
+
+const removeStoredEntries = () => {
+  const { storage, storageKeyPrefix } = options;
+  if (!storage) {
+    return;
+  }
+
+  const keys: string[] = [];
+  for (let index = 0; index < storage.length; index += 1) {
+    const key = storage.key(index);
+    if (key?.startsWith(storageKeyPrefix)) {
+      keys.push(key);
+    }
+  }
+
+  keys.forEach((key) => storage.removeItem(key));
+};
+
+export const readCache = <T>(key: string): CachedResponse<T> | null => {
+  const fromMemory = memory.get(key);
+  if (fromMemory) {
+    return fromMemory as CachedResponse<T>;
+  }
+
+  const { storage, storageKeyPrefix } = options;
+  if (!storage) {
+    return null;
+  }
+
+  try {
+    const raw = storage.getItem(storageKeyPrefix + key);
+    if (!raw) {
+      return null;
+    }
+
+    const parsed = JSON.parse(raw) as CachedResponse<T>;
+    memory.set(key, parsed);
+    return parsed;
+  } catch (err) {
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, body: T, etag: string | null) => {
+  const entry: CachedResponse<T> = { etag, body, storedAt: Date.now() };
+  memory.set(key, entry);
+
+  const { storage, storageKeyPrefix } = options;
+  if (!storage) {
+    return;
+  }
+
+  const serialized = JSON.stringify(entry);
+  try {
+    storage.setItem(storageKeyPrefix + key, serialized);
+  } catch (err) {
+    // Quota exceeded: drop everything we own and try once more before giving up on persistence.
+    removeStoredEntries();
+    try {
+      storage.setItem(storageKeyPrefix + key, serialized);
+    } catch (retryErr) {
+      // The in-memory copy still serves this session.
+    }
+  }
+};
+
+export const touchCache = (key: string) => {
+  const entry = readCache(key);
+  if (entry) {
+    writeCache(key, entry.body, entry.etag);
+  }
+};
+
+export const isFresh = (entry: CachedResponse): boolean => Date.now() - entry.storedAt < options.ttlMs;
+
+export const clearCache = () => {
+  memory.clear();
+  inFlight.clear();
+  removeStoredEntries();
+};
+
+// Identical concurrent requests share one pending promise, so two views mounting at once spend one API call.
+export const dedupe = <T>(key: string, request: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = request().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, promise);
+  return promise;
+};
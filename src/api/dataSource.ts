@@ -0,0 +1,38 @@
+import { createFixtureDataSource } from './fixtureDataSource';
+import { createHttpDataSource } from './httpDataSource';
+import type { MarvelDataContainer, QueryParamValue } from './marvel';
+
+export type DataSourceName = 'http' | 'fixtures';
+
+// A data source answers the same paths and query params as the Marvel REST API
+// (`/characters`, `/comics/{id}/characters`, ...), so every fetcher in marvel.ts works against any of them.
+export interface MarvelDataSource {
+  name: DataSourceName;
+  fetchCollection: <T>(path: string, params?: Record<string, QueryParamValue>) => Promise<MarvelDataContainer<T>>;
+}
+
+const resolveDefaultName = (): DataSourceName => {
+  const configured = process.env.REACT_APP_MARVEL_DATA_SOURCE;
+  if (configured === 'http' || configured === 'fixtures') {
+    return configured;
+  }
+
+  return process.env.NODE_ENV === 'test' ? 'fixtures' : 'http';
+};
+
+export const createDataSource = (name: DataSourceName): MarvelDataSource =>
+  name === 'fixtures' ? createFixtureDataSource() : createHttpDataSource();
+
+let activeSource: MarvelDataSource | null = null;
+
+export const getDataSource = (): MarvelDataSource => {
+  if (!activeSource) {
+    activeSource = createDataSource(resolveDefaultName());
+  }
+
+  return activeSource;
+};
+
+export const setDataSource = (source: MarvelDataSource) => {
+  activeSource = source;
+};
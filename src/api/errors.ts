@@ -0,0 +1,161 @@
+import axios from 'axios';
+
+export type MarvelErrorKind =
+  | 'missing-credentials'
+  | 'invalid-credentials'
+  | 'rate-limited'
+  | 'not-found'
+  | 'offline'
+  | 'malformed-response'
+  | 'server'
+  | 'unknown';
+
+export class MarvelApiError extends Error {
+  readonly kind: MarvelErrorKind;
+  readonly status: number | null;
+  readonly retryable: boolean;
+
+  constructor(kind: MarvelErrorKind, message: string, status: number | null = null, retryable = false) {
+    super(message);
+    this.name = 'MarvelApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryable = retryable;
+    // Keeps instanceof working when TypeScript compiles classes down to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class MissingCredentialsError extends MarvelApiError {
+  constructor() {
+    super('missing-credentials', 'Marvel API credentials are missing. Double-check .env.local.');
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+export class InvalidCredentialsError extends MarvelApiError {
+  constructor(message = 'The Marvel API rejected the request signature.') {
+    super('invalid-credentials', message, 401);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+export class RateLimitError extends MarvelApiError {
+  constructor(message = 'The daily Marvel API quota has been used up.') {
+    super('rate-limited', message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NotFoundError extends MarvelApiError {
+  constructor(message = 'The requested resource does not exist.') {
+    super('not-found', message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class NetworkError extends MarvelApiError {
+  constructor(message = 'Could not reach the Marvel API.') {
+    super('offline', message, null, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class MalformedResponseError extends MarvelApiError {
+  constructor(message = 'The Marvel API returned an unexpected response.') {
+    super('malformed-response', message);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export const isMarvelApiError = (err: unknown): err is MarvelApiError => err instanceof MarvelApiError;
+
+const readApiMessage = (data: unknown): string | undefined => {
+  if (data && typeof data === 'object') {
+    const { status, message } = data as { status?: unknown; message?: unknown };
+    if (typeof status === 'string') {
+      return status;
+    }
+    if (typeof message === 'string') {
+      return message;
+    }
+  }
+  return undefined;
+};
+
+export const toMarvelApiError = (err: unknown): MarvelApiError => {
+  if (isMarvelApiError(err)) {
+    return err;
+  }
+
+  if (axios.isAxiosError(err)) {
+    if (!err.response) {
+      return new NetworkError(
+        typeof navigator !== 'undefined' && navigator.onLine === false
+          ? 'You appear to be offline.'
+          : 'Could not reach the Marvel API.'
+      );
+    }
+
+    const { status, data } = err.response;
+    const apiMessage = readApiMessage(data);
+
+    if (status === 401 || status === 403) {
+      return new InvalidCredentialsError(apiMessage);
+    }
+
+    if (status === 429) {
+      return new RateLimitError(apiMessage);
+    }
+
+    if (status === 404) {
+      return new NotFoundError(apiMessage);
+    }
+
+    if (status >= 500) {
+      return new MarvelApiError('server', apiMessage ?? 'The Marvel API is having trouble right now.', status, true);
+    }
+
+    return new MarvelApiError('unknown', apiMessage ?? err.message, status);
+  }
+
+  return new MarvelApiError('unknown', err instanceof Error ? err.message : 'Something went wrong.');
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const retryOptions: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export const configureRetry = (overrides: Partial<RetryOptions>) => {
+  Object.assign(retryOptions, overrides);
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(request: () => Promise<T>): Promise<T> => {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await request();
+    } catch (err) {
+      const apiError = toMarvelApiError(err);
+
+      if (!apiError.retryable || attempt >= retryOptions.retries) {
+        throw apiError;
+      }
+
+      const delay = Math.min(retryOptions.maxDelayMs, retryOptions.baseDelayMs * 2 ** attempt);
+      attempt += 1;
+      await wait(delay * (0.75 + Math.random() * 0.5));
+    }
+  }
+};
@@ -0,0 +1,53 @@
+import { createFixtureDataSource } from './fixtureDataSource';
+import { NotFoundError, type MarvelCharacter, type MarvelComic } from './marvel';
+
+const source = createFixtureDataSource();
+
+test('filters characters by name prefix', async () => {
+  const data = await source.fetchCollection<MarvelCharacter>('/characters', { nameStartsWith: 'spider' });
+  expect(data.results.map((character) => character.name).sort()).toEqual([
+    'Spider-Girl (May Parker)',
+    'Spider-Ham (Larval Earth)',
+    'Spider-Man',
+  ]);
+});
+
+test('orders and pages results like the API', async () => {
+  const first = await source.fetchCollection<MarvelCharacter>('/characters', { orderBy: 'name', limit: 2 });
+  const second = await source.fetchCollection<MarvelCharacter>('/characters', {
+    orderBy: 'name',
+    limit: 2,
+    offset: 2,
+  });
+
+  expect(first.total).toBe(second.total);
+  expect(first.results.map((character) => character.name)).toEqual(['3-D Man', 'Avengers']);
+  expect(second.offset).toBe(2);
+  expect(second.results).toHaveLength(2);
+  expect(second.results[0].name.localeCompare(first.results[1].name)).toBeGreaterThan(0);
+});
+
+test('resolves sub-collections through resource relationships', async () => {
+  const comics = await source.fetchCollection<MarvelComic>('/characters/1009718/comics', {
+    orderBy: '-onsaleDate',
+  });
+
+  expect(comics.total).toBeGreaterThan(0);
+  expect(comics.results.every((comic) => comic.characters.items.some((item) => item.name === 'Wolverine'))).toBe(
+    true
+  );
+  expect(comics.results[0].title).toBe('Secret Wars (1984) #8');
+});
+
+test('rejects unknown ids with a not-found error', async () => {
+  await expect(source.fetchCollection('/characters/1')).rejects.toBeInstanceOf(NotFoundError);
+});
+
+test('resolves event characters from the character side', async () => {
+  const characters = await source.fetchCollection<MarvelCharacter>('/events/270/characters');
+
+  expect(characters.total).toBeGreaterThan(0);
+  expect(
+    characters.results.every((character) => character.events.items.some((item) => item.resourceURI.endsWith('/270')))
+  ).toBe(true);
+});
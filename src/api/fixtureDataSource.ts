@@ -0,0 +1,209 @@
+import type { MarvelDataSource } from './dataSource';
+import { MarvelApiError, NotFoundError } from './errors';
+import type { MarvelDataContainer, MarvelResourceList, MarvelResourceSummary, QueryParamValue } from './marvel';
+import charactersFixture from './fixtures/characters.json';
+import comicsFixture from './fixtures/comics.json';
+import seriesFixture from './fixtures/series.json';
+
+type ResourceName = 'characters' | 'comics' | 'series' | 'events' | 'stories' | 'creators';
+
+type FixtureEntity = { id: number; resourceURI: string } & Record<string, unknown>;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const RESOURCE_NAMES: ResourceName[] = ['characters', 'comics', 'series', 'events', 'stories', 'creators'];
+
+const isResourceName = (value: string): value is ResourceName =>
+  (RESOURCE_NAMES as string[]).includes(value);
+
+const idFromURI = (resourceURI: string): number => Number(resourceURI.split('/').pop());
+
+const textField = (entity: FixtureEntity): string =>
+  String(entity.name ?? entity.title ?? entity.fullName ?? '');
+
+const relatedIds = (entity: FixtureEntity, relation: ResourceName): number[] => {
+  const value = entity[relation] as MarvelResourceList | MarvelResourceSummary | undefined;
+  if (!value) {
+    return [];
+  }
+
+  if ('items' in value) {
+    return value.items.map((item) => idFromURI(item.resourceURI));
+  }
+
+  return [idFromURI(value.resourceURI)];
+};
+
+const parseIdList = (value: QueryParamValue): number[] =>
+  String(value)
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isFinite(id));
+
+const findDate = (entity: FixtureEntity, type: string): string => {
+  const dates = (entity.dates as { type: string; date: string }[] | undefined) ?? [];
+  return dates.find((entry) => entry.type === type)?.date ?? '';
+};
+
+const sortValue = (entity: FixtureEntity, field: string): string | number => {
+  switch (field) {
+    case 'onsaleDate':
+    case 'focDate':
+      return new Date(findDate(entity, field)).getTime() || 0;
+    case 'modified':
+    case 'startDate':
+      return new Date(String(entity[field === 'startDate' ? 'start' : field] ?? '')).getTime() || 0;
+    case 'name':
+    case 'title':
+      return textField(entity).toLowerCase();
+    default: {
+      const value = entity[field];
+      return typeof value === 'number' ? value : String(value ?? '').toLowerCase();
+    }
+  }
+};
+
+const compareBy = (orderBy: string) => {
+  const keys = orderBy
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => ({ field: key.replace(/^-/, ''), direction: key.startsWith('-') ? -1 : 1 }));
+
+  return (a: FixtureEntity, b: FixtureEntity) => {
+    for (const { field, direction } of keys) {
+      const left = sortValue(a, field);
+      const right = sortValue(b, field);
+      if (left < right) {
+        return -direction;
+      }
+      if (left > right) {
+        return direction;
+      }
+    }
+    return 0;
+  };
+};
+
+const matchesFilters = (entity: FixtureEntity, params: Record<string, QueryParamValue>): boolean => {
+  const name = textField(entity).toLowerCase();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    const needle = String(value).toLowerCase();
+
+    if (key === 'nameStartsWith' || key === 'titleStartsWith') {
+      if (!name.startsWith(needle)) {
+        return false;
+      }
+    } else if (key === 'name' || key === 'title') {
+      if (name !== needle) {
+        return false;
+      }
+    } else if (key === 'modifiedSince') {
+      if (new Date(String(entity.modified)).getTime() < new Date(String(value)).getTime()) {
+        return false;
+      }
+    } else if (key === 'format' || key === 'seriesType') {
+      const field = key === 'seriesType' ? 'type' : key;
+      if (String(entity[field] ?? '').toLowerCase() !== needle) {
+        return false;
+      }
+    } else if (key === 'startYear' || key === 'issueNumber') {
+      if (Number(entity[key]) !== Number(value)) {
+        return false;
+      }
+    } else if (key === 'noVariants') {
+      if (value === true || value === 'true') {
+        if (String(entity.variantDescription ?? '').trim()) {
+          return false;
+        }
+      }
+    } else if (isResourceName(key)) {
+      // Relationship filters such as `/characters?comics=123,456` match any of the listed ids.
+      const wanted = parseIdList(value);
+      const ids = relatedIds(entity, key);
+      if (!wanted.some((id) => ids.includes(id))) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+};
+
+const paginate = <T>(items: T[], params: Record<string, QueryParamValue>): MarvelDataContainer<T> => {
+  const limit = params.limit === undefined ? DEFAULT_LIMIT : Number(params.limit);
+  const offset = params.offset === undefined ? 0 : Number(params.offset);
+
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw new MarvelApiError('unknown', `You may not request more than ${MAX_LIMIT} items.`, 409);
+  }
+
+  const results = items.slice(offset, offset + limit);
+  return { offset, limit, total: items.length, count: results.length, results };
+};
+
+const query = <T>(entities: FixtureEntity[], params: Record<string, QueryParamValue>): MarvelDataContainer<T> => {
+  const matches = entities.filter((entity) => matchesFilters(entity, params));
+  const ordered = params.orderBy ? [...matches].sort(compareBy(String(params.orderBy))) : matches;
+  return paginate(ordered, params) as unknown as MarvelDataContainer<T>;
+};
+
+export const createFixtureDataSource = (): MarvelDataSource => {
+  const collections: Record<ResourceName, FixtureEntity[]> = {
+    characters: charactersFixture as unknown as FixtureEntity[],
+    comics: comicsFixture as unknown as FixtureEntity[],
+    series: seriesFixture as unknown as FixtureEntity[],
+    events: [],
+    stories: [],
+    creators: [],
+  };
+
+  const findEntity = (resource: ResourceName, id: number): FixtureEntity | undefined =>
+    collections[resource].find((item) => item.id === id);
+
+  const fetchCollection = async <T>(
+    path: string,
+    params: Record<string, QueryParamValue> = {}
+  ): Promise<MarvelDataContainer<T>> => {
+    const [resource, rawId, subResource] = path.replace(/^\/+/, '').split('/');
+
+    if (!isResourceName(resource) || (subResource !== undefined && !isResourceName(subResource))) {
+      throw new NotFoundError(`Unknown fixture path ${path}.`);
+    }
+
+    if (rawId === undefined) {
+      return query<T>(collections[resource], params);
+    }
+
+    const ownerId = Number(rawId);
+    const owner = findEntity(resource, ownerId);
+
+    if (subResource === undefined) {
+      if (!owner) {
+        throw new NotFoundError(`We couldn't find that ${resource} entry.`);
+      }
+      return paginate([owner], params) as unknown as MarvelDataContainer<T>;
+    }
+
+    // Events, stories and creators have no fixture records of their own, so their
+    // sub-collections are found from the other side of the relationship.
+    const ids = owner ? relatedIds(owner, subResource) : [];
+    const related = collections[subResource].filter(
+      (entity) => ids.includes(entity.id) || relatedIds(entity, resource).includes(ownerId)
+    );
+
+    if (!owner && related.length === 0) {
+      throw new NotFoundError(`We couldn't find that ${resource} entry.`);
+    }
+
+    return query<T>(related, params);
+  };
+
+  return { name: 'fixtures', fetchCollection };
+};
@@ -0,0 +1,80 @@
+import axios from 'axios';
+import CryptoJS from 'crypto-js';
+import { buildCacheKey, dedupe, isFresh, readCache, touchCache, writeCache } from './cache';
+import type { MarvelDataSource } from './dataSource';
+import { MalformedResponseError, MissingCredentialsError, withRetry } from './errors';
+import type { MarvelApiResponse, MarvelDataContainer, QueryParamValue } from './marvel';
+
+const publicKey = process.env.REACT_APP_MARVEL_PUBLIC_KEY ?? '';
+// When set, requests go to the signing proxy in server/ and the browser never sees the private key.
+const proxyURL = process.env.REACT_APP_MARVEL_PROXY_URL ?? '';
+// Both values are inlined at build time, so with a proxy configured the minifier drops the key from the bundle.
+const privateKey = proxyURL ? '' : process.env.REACT_APP_MARVEL_PRIVATE_KEY ?? '';
+const baseURL = proxyURL || 'https://gateway.marvel.com/v1/public';
+
+const withAuthParams = (params: Record<string, QueryParamValue> = {}) => {
+  if (proxyURL) {
+    return params;
+  }
+
+  if (!publicKey || !privateKey) {
+    throw new MissingCredentialsError();
+  }
+
+  const ts = Date.now().toString();
+  const hash = CryptoJS.MD5(ts + privateKey + publicKey).toString();
+
+  return {
+    ...params,
+    ts,
+    apikey: publicKey,
+    hash,
+  };
+};
+
+export const createHttpDataSource = (): MarvelDataSource => {
+  if (!proxyURL && (!publicKey || !privateKey)) {
+    // Helps catch missing env vars early during development.
+    // eslint-disable-next-line no-console
+    console.warn('Marvel API keys are not set in .env.local');
+  }
+
+  const client = axios.create({ baseURL });
+
+  const fetchCollection = async <T>(
+    path: string,
+    params: Record<string, QueryParamValue> = {}
+  ): Promise<MarvelDataContainer<T>> => {
+    const cacheKey = buildCacheKey(path, params);
+    const cached = readCache<MarvelDataContainer<T>>(cacheKey);
+
+    if (cached && isFresh(cached)) {
+      return cached.body;
+    }
+
+    return dedupe(cacheKey, async () => {
+      const response = await withRetry(() =>
+        client.get<MarvelApiResponse<T>>(path, {
+          params: withAuthParams(params),
+          headers: cached?.etag ? { 'If-None-Match': cached.etag } : undefined,
+          validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+        })
+      );
+
+      if (response.status === 304 && cached) {
+        touchCache(cacheKey);
+        return cached.body;
+      }
+
+      const container = response.data?.data;
+      if (!container || !Array.isArray(container.results)) {
+        throw new MalformedResponseError();
+      }
+
+      writeCache(cacheKey, container, response.data.etag ?? null);
+      return container;
+    });
+  };
+
+  return { name: 'http', fetchCollection };
+};
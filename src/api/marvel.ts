@@ -1,35 +1,12 @@
-import axios from 'axios';
-import CryptoJS from 'crypto-js';
+import { indexCharacters } from '../utils/characterIndex';
+import { getDataSource } from './dataSource';
 
-const publicKey = process.env.REACT_APP_MARVEL_PUBLIC_KEY ?? '';
-const privateKey = process.env.REACT_APP_MARVEL_PRIVATE_KEY ?? '';
-const baseURL = 'https://gateway.marvel.com/v1/public';
+export { clearCache, configureCache } from './cache';
+export { createDataSource, getDataSource, setDataSource } from './dataSource';
+export type { DataSourceName, MarvelDataSource } from './dataSource';
+export * from './errors';
 
-if (!publicKey || !privateKey) {
-  // Helps catch missing env vars early during development.
-  // eslint-disable-next-line no-console
-  console.warn('Marvel API keys are not set in .env.local');
-}
-
-const client = axios.create({ baseURL });
-
-type AuthParamValue = string | number | boolean | undefined;
-
-const withAuthParams = (params: Record<string, AuthParamValue> = {}) => {
-  if (!publicKey || !privateKey) {
-    throw new Error('Marvel API credentials are missing. Double-check .env.local.');
-  }
-
-  const ts = Date.now().toString();
-  const hash = CryptoJS.MD5(ts + privateKey + publicKey).toString();
-
-  return {
-    ...params,
-    ts,
-    apikey: publicKey,
-    hash,
-  };
-};
+export type QueryParamValue = string | number | boolean | undefined;
 
 export interface MarvelImage {
   path: string;
@@ -71,13 +48,129 @@ export interface MarvelCharacter {
   urls: MarvelUrl[];
 }
 
+export interface MarvelCreatorSummary extends MarvelResourceSummary {
+  role?: string;
+}
+
+export interface MarvelTextObject {
+  type: string;
+  language: string;
+  text: string;
+}
+
+export interface MarvelComicDate {
+  type: string;
+  date: string;
+}
+
+export interface MarvelComicPrice {
+  type: string;
+  price: number;
+}
+
 export interface MarvelComic {
   id: number;
+  digitalId: number;
   title: string;
-  description: string;
   issueNumber: number;
+  variantDescription: string;
+  description: string | null;
+  modified: string;
+  isbn: string;
+  upc: string;
+  diamondCode: string;
+  ean: string;
+  issn: string;
+  format: string;
+  pageCount: number;
+  textObjects: MarvelTextObject[];
+  resourceURI: string;
+  urls: MarvelUrl[];
+  series: MarvelResourceSummary;
+  variants: MarvelResourceSummary[];
+  collections: MarvelResourceSummary[];
+  collectedIssues: MarvelResourceSummary[];
+  dates: MarvelComicDate[];
+  prices: MarvelComicPrice[];
   thumbnail: MarvelImage | null;
+  images: MarvelImage[];
+  creators: MarvelResourceList<MarvelCreatorSummary>;
+  characters: MarvelResourceList;
+  stories: MarvelResourceList<MarvelStorySummary>;
+  events: MarvelResourceList;
+}
+
+export interface MarvelSeries {
+  id: number;
+  title: string;
+  description: string | null;
   resourceURI: string;
+  urls: MarvelUrl[];
+  startYear: number;
+  endYear: number;
+  rating: string;
+  type: string;
+  modified: string;
+  thumbnail: MarvelImage | null;
+  creators: MarvelResourceList<MarvelCreatorSummary>;
+  characters: MarvelResourceList;
+  stories: MarvelResourceList<MarvelStorySummary>;
+  comics: MarvelResourceList;
+  events: MarvelResourceList;
+  next: MarvelResourceSummary | null;
+  previous: MarvelResourceSummary | null;
+}
+
+export interface MarvelEvent {
+  id: number;
+  title: string;
+  description: string;
+  resourceURI: string;
+  urls: MarvelUrl[];
+  modified: string;
+  start: string | null;
+  end: string | null;
+  thumbnail: MarvelImage | null;
+  creators: MarvelResourceList<MarvelCreatorSummary>;
+  characters: MarvelResourceList;
+  stories: MarvelResourceList<MarvelStorySummary>;
+  comics: MarvelResourceList;
+  series: MarvelResourceList;
+  next: MarvelResourceSummary | null;
+  previous: MarvelResourceSummary | null;
+}
+
+export interface MarvelStory {
+  id: number;
+  title: string;
+  description: string;
+  resourceURI: string;
+  type: string;
+  modified: string;
+  thumbnail: MarvelImage | null;
+  creators: MarvelResourceList<MarvelCreatorSummary>;
+  characters: MarvelResourceList;
+  series: MarvelResourceList;
+  comics: MarvelResourceList;
+  events: MarvelResourceList;
+  originalIssue: MarvelResourceSummary | null;
+}
+
+export interface MarvelCreator {
+  id: number;
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  suffix: string;
+  fullName: string;
+  modified: string;
+  resourceURI: string;
+  urls: MarvelUrl[];
+  thumbnail: MarvelImage | null;
+  series: MarvelResourceList;
+  stories: MarvelResourceList<MarvelStorySummary>;
+  comics: MarvelResourceList;
+  events: MarvelResourceList;
 }
 
 export interface MarvelDataContainer<T> {
@@ -97,37 +190,254 @@ export interface MarvelApiResponse<T> {
 
 export type CharacterOrderBy = 'name' | '-name' | 'modified' | '-modified';
 
-export interface CharacterSearchParams extends Record<string, AuthParamValue> {
+// The API accepts several comma-separated keys, most significant first.
+export type CharacterOrderByList = CharacterOrderBy | `${CharacterOrderBy},${CharacterOrderBy}`;
+
+export interface CharacterSearchParams extends Record<string, QueryParamValue> {
+  name?: string;
   nameStartsWith?: string;
-  orderBy?: CharacterOrderBy;
+  modifiedSince?: string;
+  // Comma-separated ids; a character matches if it appears in any of them.
+  comics?: string;
+  series?: string;
+  events?: string;
+  stories?: string;
+  orderBy?: CharacterOrderByList;
+  limit?: number;
+  offset?: number;
+}
+
+export type ComicOrderBy =
+  | 'title'
+  | '-title'
+  | 'issueNumber'
+  | '-issueNumber'
+  | 'onsaleDate'
+  | '-onsaleDate'
+  | 'modified'
+  | '-modified';
+
+export interface ComicSearchParams extends Record<string, QueryParamValue> {
+  titleStartsWith?: string;
+  format?: string;
+  noVariants?: boolean;
+  orderBy?: ComicOrderBy;
+  limit?: number;
+  offset?: number;
+}
+
+export type SeriesOrderBy = 'title' | '-title' | 'startYear' | '-startYear' | 'modified' | '-modified';
+
+export interface SeriesSearchParams extends Record<string, QueryParamValue> {
+  titleStartsWith?: string;
+  startYear?: number;
+  seriesType?: string;
+  orderBy?: SeriesOrderBy;
   limit?: number;
   offset?: number;
 }
 
+export type EventOrderBy = 'name' | '-name' | 'startDate' | '-startDate' | 'modified' | '-modified';
+
+export interface EventSearchParams extends Record<string, QueryParamValue> {
+  nameStartsWith?: string;
+  orderBy?: EventOrderBy;
+  limit?: number;
+  offset?: number;
+}
+
+export type StoryOrderBy = 'id' | '-id' | 'modified' | '-modified';
+
+export interface StorySearchParams extends Record<string, QueryParamValue> {
+  orderBy?: StoryOrderBy;
+  limit?: number;
+  offset?: number;
+}
+
+export type CreatorOrderBy =
+  | 'lastName'
+  | '-lastName'
+  | 'firstName'
+  | '-firstName'
+  | 'modified'
+  | '-modified';
+
+export interface CreatorSearchParams extends Record<string, QueryParamValue> {
+  nameStartsWith?: string;
+  lastNameStartsWith?: string;
+  orderBy?: CreatorOrderBy;
+  limit?: number;
+  offset?: number;
+}
+
+const fetchCollection = <T>(
+  path: string,
+  params: Record<string, QueryParamValue> = {}
+): Promise<MarvelDataContainer<T>> => getDataSource().fetchCollection<T>(path, params);
+
+const fetchSingle = async <T>(path: string): Promise<T | null> => {
+  const data = await fetchCollection<T>(path);
+  return data.results[0] ?? null;
+};
+
+// Character pages feed the local search index (see utils/characterIndex) as a side effect.
 export const getCharacters = async (
   params: CharacterSearchParams = {}
 ): Promise<MarvelDataContainer<MarvelCharacter>> => {
-  const response = await client.get<MarvelApiResponse<MarvelCharacter>>('/characters', {
-    params: withAuthParams(params),
-  });
+  const data = await fetchCollection<MarvelCharacter>('/characters', params);
+  indexCharacters(data.results);
+  return data;
+};
 
-  return response.data.data;
+export interface FetchAllOptions {
+  max?: number;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// Walks any paged collection 100 at a time; `max` keeps very broad queries from pulling the whole catalogue.
+export const fetchAllPages = async <T>(
+  fetchPage: (page: { limit: number; offset: number }) => Promise<MarvelDataContainer<T>>,
+  { max = 500, onProgress }: FetchAllOptions = {}
+): Promise<MarvelDataContainer<T>> => {
+  const results: T[] = [];
+  let total = 0;
+
+  do {
+    const data = await fetchPage({ limit: 100, offset: results.length });
+    total = data.total;
+    results.push(...data.results);
+    onProgress?.(results.length, total);
+
+    if (data.count === 0) {
+      break;
+    }
+  } while (results.length < Math.min(total, max));
+
+  return { offset: 0, limit: results.length, total, count: results.length, results };
 };
 
-export const getCharacterById = async (id: string | number): Promise<MarvelCharacter | null> => {
-  const response = await client.get<MarvelApiResponse<MarvelCharacter>>(`/characters/${id}`, {
-    params: withAuthParams(),
-  });
+export const getAllCharacters = (
+  params: CharacterSearchParams = {},
+  options: FetchAllOptions = {}
+): Promise<MarvelDataContainer<MarvelCharacter>> =>
+  fetchAllPages((page) => getCharacters({ ...params, ...page }), options);
 
-  return response.data.data.results[0] ?? null;
+export const getCharacterById = async (id: string | number): Promise<MarvelCharacter | null> => {
+  const character = await fetchSingle<MarvelCharacter>(`/characters/${id}`);
+  if (character) {
+    indexCharacters([character]);
+  }
+  return character;
 };
 
+export const getCharacterComics = async (
+  id: string | number,
+  params: ComicSearchParams = {}
+): Promise<MarvelDataContainer<MarvelComic>> => fetchCollection<MarvelComic>(`/characters/${id}/comics`, params);
+
+export const getCharacterSeries = async (
+  id: string | number,
+  params: SeriesSearchParams = {}
+): Promise<MarvelDataContainer<MarvelSeries>> => fetchCollection<MarvelSeries>(`/characters/${id}/series`, params);
+
+export const getCharacterEvents = async (
+  id: string | number,
+  params: EventSearchParams = {}
+): Promise<MarvelDataContainer<MarvelEvent>> => fetchCollection<MarvelEvent>(`/characters/${id}/events`, params);
+
+export const getCharacterStories = async (
+  id: string | number,
+  params: StorySearchParams = {}
+): Promise<MarvelDataContainer<MarvelStory>> => fetchCollection<MarvelStory>(`/characters/${id}/stories`, params);
+
 export const getComics = async (
-  params: Record<string, AuthParamValue> = {}
-): Promise<MarvelDataContainer<MarvelComic>> => {
-  const response = await client.get<MarvelApiResponse<MarvelComic>>('/comics', {
-    params: withAuthParams(params),
-  });
+  params: ComicSearchParams = {}
+): Promise<MarvelDataContainer<MarvelComic>> => fetchCollection<MarvelComic>('/comics', params);
+
+export const getComicById = async (id: string | number): Promise<MarvelComic | null> =>
+  fetchSingle<MarvelComic>(`/comics/${id}`);
+
+export const getComicCharacters = async (
+  id: string | number,
+  params: CharacterSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCharacter>> =>
+  fetchCollection<MarvelCharacter>(`/comics/${id}/characters`, params);
+
+export const getComicCreators = async (
+  id: string | number,
+  params: CreatorSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCreator>> => fetchCollection<MarvelCreator>(`/comics/${id}/creators`, params);
+
+export const getSeries = async (
+  params: SeriesSearchParams = {}
+): Promise<MarvelDataContainer<MarvelSeries>> => fetchCollection<MarvelSeries>('/series', params);
+
+export const getSeriesById = async (id: string | number): Promise<MarvelSeries | null> =>
+  fetchSingle<MarvelSeries>(`/series/${id}`);
+
+export const getSeriesCharacters = async (
+  id: string | number,
+  params: CharacterSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCharacter>> =>
+  fetchCollection<MarvelCharacter>(`/series/${id}/characters`, params);
+
+export const getSeriesComics = async (
+  id: string | number,
+  params: ComicSearchParams = {}
+): Promise<MarvelDataContainer<MarvelComic>> => fetchCollection<MarvelComic>(`/series/${id}/comics`, params);
+
+export const getEvents = async (
+  params: EventSearchParams = {}
+): Promise<MarvelDataContainer<MarvelEvent>> => fetchCollection<MarvelEvent>('/events', params);
+
+export const getEventById = async (id: string | number): Promise<MarvelEvent | null> =>
+  fetchSingle<MarvelEvent>(`/events/${id}`);
+
+export const getEventCharacters = async (
+  id: string | number,
+  params: CharacterSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCharacter>> =>
+  fetchCollection<MarvelCharacter>(`/events/${id}/characters`, params);
+
+export const getEventComics = async (
+  id: string | number,
+  params: ComicSearchParams = {}
+): Promise<MarvelDataContainer<MarvelComic>> => fetchCollection<MarvelComic>(`/events/${id}/comics`, params);
+
+export const getStories = async (
+  params: StorySearchParams = {}
+): Promise<MarvelDataContainer<MarvelStory>> => fetchCollection<MarvelStory>('/stories', params);
+
+export const getStoryById = async (id: string | number): Promise<MarvelStory | null> =>
+  fetchSingle<MarvelStory>(`/stories/${id}`);
+
+export const getStoryCharacters = async (
+  id: string | number,
+  params: CharacterSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCharacter>> =>
+  fetchCollection<MarvelCharacter>(`/stories/${id}/characters`, params);
+
+export const getCreators = async (
+  params: CreatorSearchParams = {}
+): Promise<MarvelDataContainer<MarvelCreator>> => fetchCollection<MarvelCreator>('/creators', params);
+
+export const getCreatorById = async (id: string | number): Promise<MarvelCreator | null> =>
+  fetchSingle<MarvelCreator>(`/creators/${id}`);
+
+export const getCreatorComics = async (
+  id: string | number,
+  params: ComicSearchParams = {}
+): Promise<MarvelDataContainer<MarvelComic>> => fetchCollection<MarvelComic>(`/creators/${id}/comics`, params);
+
+export const getResourceCollection = async <T>(
+  collectionURI: string,
+  params: Record<string, QueryParamValue> = {}
+): Promise<MarvelDataContainer<T>> => {
+  const path = collectionURI.replace(/^https?:\/\/[^/]+\/v1\/public/, '');
+  return fetchCollection<T>(path, params);
+};
 
-  return response.data.data;
+export const extractIdFromResourceURI = (resourceURI: string): number | null => {
+  const match = resourceURI.match(/\/(\d+)\/?$/);
+  return match ? Number(match[1]) : null;
 };
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { MarvelApiError } from '../api/marvel';
+import './ApiErrorNotice.css';
+
+interface ApiErrorNoticeProps {
+  error: MarvelApiError;
+  onRetry?: () => void;
+  subject?: string;
+}
+
+const describeError = (error: MarvelApiError, subject: string): { title: string; detail: string } => {
+  switch (error.kind) {
+    case 'missing-credentials':
+      return {
+        title: 'Marvel API keys are not set',
+        detail:
+          'Add REACT_APP_MARVEL_PUBLIC_KEY and REACT_APP_MARVEL_PRIVATE_KEY to .env.local, then restart the dev server.',
+      };
+    case 'invalid-credentials':
+      return {
+        title: 'The Marvel API rejected our keys',
+        detail: 'Check that both keys are correct and that this site is listed as an authorized referrer.',
+      };
+    case 'rate-limited':
+      return {
+        title: 'Daily API limit reached',
+        detail: 'The Marvel API quota for today has been used up. Cached pages still work; try again later.',
+      };
+    case 'not-found':
+      return {
+        title: `That ${subject} could not be found`,
+        detail: 'It may have been removed, or the link may be wrong.',
+      };
+    case 'offline':
+      return {
+        title: 'Network unavailable',
+        detail: `${error.message} Check your connection and try again.`,
+      };
+    case 'malformed-response':
+      return {
+        title: 'Unexpected response',
+        detail: 'The Marvel API sent back data we could not read.',
+      };
+    default:
+      return {
+        title: `Could not load ${subject} right now`,
+        detail: error.message,
+      };
+  }
+};
+
+const ApiErrorNotice: React.FC<ApiErrorNoticeProps> = ({ error, onRetry, subject = 'data' }) => {
+  const { title, detail } = describeError(error, subject);
+  const canRetry = onRetry && error.kind !== 'missing-credentials' && error.kind !== 'not-found';
+
+  return (
+    <div className={`api-error api-error--${error.kind}`} role="alert">
+      <strong className="api-error__title">{title}</strong>
+      <p className="api-error__detail">{detail}</p>
+      <div className="api-error__actions">
+        {canRetry && (
+          <button type="button" className="api-error__button" onClick={onRetry}>
+            Try again
+          </button>
+        )}
+        {error.kind === 'not-found' && (
+          <Link to="/list" className="api-error__button">
+            Back to search
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiErrorNotice;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './BarChart.css';
+
+export interface BarChartDatum {
+  key: string;
+  label: string;
+  value: number;
+  // Where the bar leads; bars without a target render as plain text.
+  to?: string | null;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  label: string;
+  unit: string;
+  // Columns suit ordered buckets such as histograms; rows suit long names.
+  layout?: 'columns' | 'rows';
+}
+
+const BarChart: React.FC<BarChartProps> = ({ data, label, unit, layout = 'rows' }) => {
+  const max = Math.max(1, ...data.map((datum) => datum.value));
+
+  return (
+    <ul className={`bar-chart bar-chart--${layout}`} aria-label={label}>
+      {data.map((datum) => {
+        const description = `${datum.label}: ${datum.value.toLocaleString()} ${unit}`;
+        const size = `${(datum.value / max) * 100}%`;
+        const content = (
+          <>
+            <span className="bar-chart__label">{datum.label}</span>
+            <span className="bar-chart__track">
+              <span className="bar-chart__bar" style={layout === 'rows' ? { width: size } : { height: size }} />
+            </span>
+            <span className="bar-chart__value">{datum.value.toLocaleString()}</span>
+          </>
+        );
+
+        return (
+          <li key={datum.key} className="bar-chart__item" title={description}>
+            {datum.to && datum.value > 0 ? (
+              <Link to={datum.to} className="bar-chart__link" aria-label={description}>
+                {content}
+              </Link>
+            ) : (
+              <span className="bar-chart__link bar-chart__link--static" aria-label={description}>
+                {content}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default BarChart;
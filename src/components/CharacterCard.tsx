@@ -0,0 +1,116 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { MarvelImage } from '../api/marvel';
+import type { RovingItemProps } from '../hooks/useRovingFocus';
+import type { CharacterHit, SearchField } from '../utils/characterIndex';
+import { buildImageUrl } from '../utils/marvelImages';
+import CharacterImage from './CharacterImage';
+import CompareToggle from './CompareToggle';
+import FavoriteButton from './FavoriteButton';
+import HighlightedText from './HighlightedText';
+import './CharacterCard.css';
+
+export type CardCharacter = {
+  id: number;
+  name: string;
+  thumbnail: MarvelImage | null;
+  comics: number;
+  events: number;
+  codename?: string;
+  series?: string[];
+  // Name of the activity tier the character falls into, shown as a badge.
+  tier?: string | null;
+};
+
+interface CharacterCardProps {
+  character: CardCharacter;
+  // Tiles fill a gallery grid cell; rows are the compact search-result layout.
+  layout?: 'tile' | 'row';
+  // Defaults to the plain detail path; lists pass one that records where the character sits in them.
+  linkTo?: string;
+  linkState?: unknown;
+  linkProps?: RovingItemProps<HTMLAnchorElement>;
+  // Called when the card's link is followed, but not for the compare and favorite buttons beside it.
+  onOpen?: () => void;
+  // Search matches to highlight; a match outside the name takes the alias line's place.
+  match?: Pick<CharacterHit, 'nameRanges' | 'detail'>;
+}
+
+const MATCH_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  description: 'Bio',
+  series: 'Series',
+  events: 'Event',
+};
+
+const SERIES_PREVIEW = 3;
+
+const imageSizing = {
+  tile: { sizes: '(max-width: 640px) 100vw, 250px' },
+  row: { sizes: '(max-width: 640px) 100vw, 96px', width: 96 },
+};
+
+const CharacterCard: React.FC<CharacterCardProps> = ({
+  character,
+  layout = 'tile',
+  linkTo,
+  linkState,
+  linkProps,
+  onOpen,
+  match,
+}) => {
+  const ref = {
+    id: character.id,
+    name: character.name,
+    thumbnailUrl: buildImageUrl(character.thumbnail, 'standard'),
+  };
+
+  return (
+    <li className={`character-card character-card--${layout}`}>
+      <Link
+        {...linkProps}
+        to={linkTo ?? `/detail/${character.id}`}
+        state={linkState}
+        onClick={onOpen}
+        className="character-card__link"
+      >
+        <CharacterImage
+          thumbnail={character.thumbnail}
+          alt={character.name}
+          shape="standard"
+          {...imageSizing[layout]}
+          className="character-card__image"
+        />
+        <div className="character-card__body">
+          <h3>
+            <HighlightedText text={character.name} ranges={match?.nameRanges ?? []} />
+          </h3>
+          {match?.detail ? (
+            <p className="character-card__match">
+              {MATCH_LABELS[match.detail.field]}: <HighlightedText text={match.detail.text} ranges={match.detail.ranges} />
+            </p>
+          ) : (
+            character.codename && <p>Alias: {character.codename}</p>
+          )}
+          <p className="character-card__meta">
+            Comics: {character.comics.toLocaleString()} | Events: {character.events}
+            {character.tier && <span className="character-card__tier">{character.tier}</span>}
+          </p>
+          {character.series && character.series.length > 0 && (
+            <ul className="character-card__series">
+              {character.series.slice(0, SERIES_PREVIEW).map((seriesName) => (
+                <li key={seriesName}>{seriesName}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </Link>
+      <div className="character-card__actions">
+        <CompareToggle character={{ id: character.id, name: character.name }} />
+        <FavoriteButton character={ref} />
+      </div>
+    </li>
+  );
+};
+
+export default CharacterCard;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import type { MarvelImage } from '../api/marvel';
+import { buildImageUrl, buildSrcSet, type ImageShape } from '../utils/marvelImages';
+
+interface CharacterImageProps {
+  thumbnail: MarvelImage | null | undefined;
+  alt: string;
+  shape?: ImageShape;
+  // Rendered width hint for the browser; the `src` fallback is picked from the same width.
+  sizes?: string;
+  width?: number;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+}
+
+// A 1×1 transparent gif; pointing an unfinished image at it makes the browser drop the pending download.
+const BLANK_IMAGE = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+
+const CharacterImage: React.FC<CharacterImageProps> = ({
+  thumbnail,
+  alt,
+  shape = 'portrait',
+  sizes,
+  width,
+  className,
+  loading = 'lazy',
+}) => {
+  const imageRef = useRef<HTMLImageElement | null>(null);
+
+  // Virtualized grids unmount cards as they scroll away; stop any download that has not finished yet.
+  useEffect(() => {
+    const image = imageRef.current;
+    return () => {
+      if (image && !image.complete) {
+        image.srcset = '';
+        image.src = BLANK_IMAGE;
+      }
+    };
+  }, []);
+
+  return (
+    <img
+      ref={imageRef}
+      src={buildImageUrl(thumbnail, shape, width)}
+      srcSet={buildSrcSet(thumbnail, shape)}
+      sizes={sizes ?? (width ? `${width}px` : undefined)}
+      alt={alt}
+      className={className}
+      loading={loading}
+      decoding="async"
+    />
+  );
+};
+
+export default CharacterImage;
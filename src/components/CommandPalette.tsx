@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { getCharacters, toMarvelApiError, type MarvelApiError } from '../api/marvel';
+import { useShortcut } from '../hooks/useShortcut';
+import './KeyboardOverlays.css';
+
+type PaletteItem = {
+  id: string;
+  label: string;
+  hint: string;
+  path: string;
+  state?: unknown;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+const CHARACTER_LIMIT = 8;
+
+const routeCommands: PaletteItem[] = [
+  { id: 'route:list', label: 'Search characters', hint: 'Page', path: '/list' },
+  { id: 'route:gallery', label: 'Character gallery', hint: 'Page', path: '/gallery' },
+  { id: 'route:comics', label: 'Comics', hint: 'Page', path: '/comics' },
+  { id: 'route:teams', label: 'Favorites and teams', hint: 'Page', path: '/teams' },
+  { id: 'route:import', label: 'Import characters', hint: 'Page', path: '/import' },
+  { id: 'route:stats', label: 'Character statistics', hint: 'Page', path: '/stats' },
+  { id: 'route:settings', label: 'Activity tier settings', hint: 'Page', path: '/settings' },
+];
+
+const CommandPalette: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [characters, setCharacters] = useState<{ id: number; name: string }[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    returnFocusRef.current?.focus();
+  }, []);
+
+  useShortcut(
+    ['mod+k'],
+    () => {
+      if (open) {
+        close();
+        return;
+      }
+      returnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+      setQuery('');
+      setActiveIndex(0);
+      setOpen(true);
+    },
+    { allowInInputs: true }
+  );
+
+  useEffect(() => {
+    if (open) {
+      inputRef.current?.focus();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || !trimmed) {
+      setCharacters([]);
+      setError(null);
+      // A search still running is cancelled below, so its own reset never happens.
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeoutId = window.setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+
+      try {
+        const data = await getCharacters({ nameStartsWith: trimmed, orderBy: 'name', limit: CHARACTER_LIMIT });
+        if (!cancelled) {
+          setCharacters(data.results.map((character) => ({ id: character.id, name: character.name })));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setCharacters([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [open, query]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const needle = query.trim().toLowerCase();
+    const routes = routeCommands.filter((command) => !needle || command.label.toLowerCase().includes(needle));
+    const from = `${location.pathname}${location.search}`;
+    const characterItems = characters.map((character) => ({
+      id: `character:${character.id}`,
+      label: character.name,
+      hint: 'Character',
+      path: `/detail/${character.id}`,
+      state: { neighbors: characters, from },
+    }));
+
+    return [...characterItems, ...routes];
+  }, [characters, location.pathname, location.search, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items.length]);
+
+  const choose = (item: PaletteItem | undefined) => {
+    if (!item) {
+      return;
+    }
+    setOpen(false);
+    navigate(item.path, { state: item.state });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((prev) => (items.length === 0 ? 0 : (prev + 1) % items.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((prev) => (items.length === 0 ? 0 : (prev - 1 + items.length) % items.length));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        choose(items[activeIndex]);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        close();
+        break;
+      case 'Tab':
+        // The input is the only focusable element, so keep focus inside the dialog.
+        event.preventDefault();
+        break;
+      default:
+        break;
+    }
+  };
+
+  if (!open) {
+    return null;
+  }
+
+  const activeItem = items[activeIndex];
+
+  return (
+    <div className="keyboard-overlay" onMouseDown={close}>
+      <div
+        className="keyboard-overlay__dialog command-palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          className="command-palette__input"
+          value={query}
+          placeholder="Jump to a character or page…"
+          role="combobox"
+          aria-expanded={items.length > 0}
+          aria-controls="command-palette-results"
+          aria-activedescendant={activeItem ? `command-palette-${activeItem.id}` : undefined}
+          aria-autocomplete="list"
+          aria-label="Search characters and pages"
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        {searching && <p className="command-palette__hint">Searching characters…</p>}
+        {error && <p className="command-palette__hint">Character search failed: {error.message}</p>}
+        <ul id="command-palette-results" className="command-palette__results" role="listbox">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              id={`command-palette-${item.id}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`command-palette__item${index === activeIndex ? ' command-palette__item--active' : ''}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => choose(item)}
+            >
+              <span>{item.label}</span>
+              <span className="command-palette__kind">{item.hint}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="command-palette__hint">↑ ↓ to move · Enter to open · Esc to close</p>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useCompare } from '../context/CompareContext';
+import type { CharacterRef } from '../context/RostersContext';
+import './CompareControls.css';
+
+interface CompareToggleProps {
+  character: CharacterRef;
+  className?: string;
+}
+
+const CompareToggle: React.FC<CompareToggleProps> = ({ character, className }) => {
+  const { isSelected, toggleCompare, canAdd } = useCompare();
+  const checked = isSelected(character.id);
+
+  return (
+    <label className={`compare-toggle${checked ? ' compare-toggle--active' : ''}${className ? ` ${className}` : ''}`}>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={!checked && !canAdd}
+        onChange={() => toggleCompare(character)}
+        aria-label={`Compare ${character.name}`}
+      />
+      Compare
+    </label>
+  );
+};
+
+export default CompareToggle;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { MAX_COMPARE, buildCompareLink, useCompare } from '../context/CompareContext';
+import './CompareControls.css';
+
+const CompareTray: React.FC = () => {
+  const { selection, toggleCompare, clearCompare } = useCompare();
+
+  if (selection.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside className="compare-tray" aria-label="Characters selected for comparison">
+      <span className="compare-tray__label">
+        Compare ({selection.length}/{MAX_COMPARE})
+      </span>
+      <ul className="compare-tray__list">
+        {selection.map((character) => (
+          <li key={character.id}>
+            {character.name}
+            <button
+              type="button"
+              className="compare-tray__remove"
+              onClick={() => toggleCompare(character)}
+              aria-label={`Stop comparing ${character.name}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="compare-tray__actions">
+        <button type="button" className="compare-tray__button" onClick={clearCompare}>
+          Clear
+        </button>
+        {selection.length >= 2 ? (
+          <Link to={buildCompareLink(selection.map((character) => character.id))} className="compare-tray__button">
+            Compare now
+          </Link>
+        ) : (
+          <span className="compare-tray__hint">Pick at least two</span>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import {
+  downloadFile,
+  openPrintSheet,
+  toCsv,
+  toJson,
+  type ExportableCharacter,
+} from '../utils/exportCharacters';
+import './ExportMenu.css';
+
+interface ExportMenuProps {
+  characters: ExportableCharacter[];
+  // Used for file names and the print sheet heading.
+  title: string;
+  className?: string;
+}
+
+const toFileStem = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'characters';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ characters, title, className }) => {
+  const [notice, setNotice] = useState<string | null>(null);
+  const disabled = characters.length === 0;
+  const stem = toFileStem(title);
+
+  const handlePrint = () => {
+    setNotice(openPrintSheet(title, characters) ? null : 'Allow pop-ups for this site to print the card sheet.');
+  };
+
+  return (
+    <div className={`export-menu${className ? ` ${className}` : ''}`}>
+      <span className="export-menu__label">Export</span>
+      <button
+        type="button"
+        className="export-menu__button"
+        disabled={disabled}
+        onClick={() => downloadFile(`${stem}.csv`, toCsv(characters), 'text/csv')}
+      >
+        CSV
+      </button>
+      <button
+        type="button"
+        className="export-menu__button"
+        disabled={disabled}
+        onClick={() => downloadFile(`${stem}.json`, toJson(characters), 'application/json')}
+      >
+        JSON
+      </button>
+      <button type="button" className="export-menu__button" disabled={disabled} onClick={handlePrint}>
+        Print cards
+      </button>
+      {notice && (
+        <span className="export-menu__notice" role="status">
+          {notice}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useRosters, type CharacterRef } from '../context/RostersContext';
+import './FavoriteButton.css';
+
+interface FavoriteButtonProps {
+  character: CharacterRef;
+  className?: string;
+}
+
+const FavoriteButton: React.FC<FavoriteButtonProps> = ({ character, className }) => {
+  const { isFavorite, toggleFavorite } = useRosters();
+  const active = isFavorite(character.id);
+  const label = active ? `Remove ${character.name} from favorites` : `Add ${character.name} to favorites`;
+
+  return (
+    <button
+      type="button"
+      className={`favorite-button${active ? ' favorite-button--active' : ''}${className ? ` ${className}` : ''}`}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      onClick={(event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        toggleFavorite(character);
+      }}
+    >
+      {active ? '★' : '☆'}
+    </button>
+  );
+};
+
+export default FavoriteButton;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { MatchRange } from '../utils/characterIndex';
+import './HighlightedText.css';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: MatchRange[];
+}
+
+// Sorts and merges overlapping ranges so each character is wrapped at most once.
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, [start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+      return merged;
+    }, []);
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  mergeRanges(ranges).forEach(([start, end]) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={start} className="highlighted-text">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
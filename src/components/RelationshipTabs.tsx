@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  getResourceCollection,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelImage,
+} from '../api/marvel';
+import { useUrlState } from '../hooks/useUrlState';
+import ApiErrorNotice from './ApiErrorNotice';
+import ResourceList from './ResourceList';
+import StatusBanner from './StatusBanner';
+import './RelationshipTabs.css';
+
+export type RelationKey = 'comics' | 'series' | 'events' | 'stories';
+
+export type RelationSummary = {
+  available: number;
+  collectionURI: string;
+};
+
+type RelatedResource = {
+  id: number;
+  title: string;
+  thumbnail: MarvelImage | null;
+};
+
+type RelationPage = {
+  entries: RelatedResource[];
+  total: number;
+};
+
+interface RelationshipTabsProps {
+  relations: Record<RelationKey, RelationSummary>;
+}
+
+const PAGE_SIZE = 12;
+
+const tabs: { key: RelationKey; label: string; route: string; empty: string }[] = [
+  { key: 'comics', label: 'Comics', route: '/comics', empty: 'No comics listed.' },
+  { key: 'series', label: 'Series', route: '/series', empty: 'No series listed.' },
+  { key: 'events', label: 'Events', route: '/events', empty: 'No events listed.' },
+  { key: 'stories', label: 'Stories', route: '/stories', empty: 'No stories listed.' },
+];
+
+const isRelationKey = (value: string | null): value is RelationKey => tabs.some((tab) => tab.key === value);
+
+const RelationshipTabs: React.FC<RelationshipTabsProps> = ({ relations }) => {
+  const location = useLocation();
+  const [searchParams, updateUrl] = useUrlState();
+  const tabParam = searchParams.get('tab');
+  const activeTab: RelationKey = isRelationKey(tabParam) ? tabParam : 'comics';
+  const [paging, setPaging] = useState({ collectionURI: '', offset: 0 });
+  const [page, setPage] = useState<RelationPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const cacheRef = useRef<Map<string, RelationPage>>(new Map());
+
+  const { collectionURI, available } = relations[activeTab];
+  // Paging belongs to one collection, so switching tabs or characters starts from the first page.
+  const offset = paging.collectionURI === collectionURI ? paging.offset : 0;
+  const goToOffset = (next: number) => setPaging({ collectionURI, offset: Math.max(0, next) });
+
+  useEffect(() => {
+    // A fetch still running for the previous tab is cancelled, so these branches have to clear its loading state.
+    if (!collectionURI || available === 0) {
+      setPage({ entries: [], total: 0 });
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const cacheKey = `${collectionURI}|${offset}`;
+    const cached = cacheRef.current.get(cacheKey);
+    if (cached) {
+      setPage(cached);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadPage = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getResourceCollection<RelatedResource>(collectionURI, { limit: PAGE_SIZE, offset });
+        if (cancelled) {
+          return;
+        }
+
+        const next: RelationPage = {
+          entries: data.results.map(({ id, title, thumbnail }) => ({ id, title, thumbnail })),
+          total: data.total,
+        };
+        cacheRef.current.set(cacheKey, next);
+        setPage(next);
+      } catch (err) {
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setPage(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionURI, available, offset, reloadToken]);
+
+  const activeConfig = tabs.find((tab) => tab.key === activeTab) ?? tabs[0];
+  const total = page?.total ?? available;
+  const rangeStart = total === 0 ? 0 : offset + 1;
+  const rangeEnd = Math.min(offset + (page?.entries.length ?? 0), total);
+  const from = `${location.pathname}${location.search}`;
+
+  return (
+    <div className="relationship-tabs">
+      <div className="relationship-tabs__list" role="tablist" aria-label="Appearances">
+        {tabs.map((tab) => (
+          <button
+            key={tab.key}
+            type="button"
+            role="tab"
+            id={`relationship-tab-${tab.key}`}
+            aria-selected={tab.key === activeTab}
+            aria-controls="relationship-panel"
+            className={`relationship-tabs__tab${tab.key === activeTab ? ' relationship-tabs__tab--active' : ''}`}
+            onClick={() => updateUrl({ tab: tab.key === 'comics' ? null : tab.key }, { replace: true })}
+          >
+            {tab.label} <span className="relationship-tabs__count">{relations[tab.key].available.toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <section
+        className="relationship-tabs__panel"
+        role="tabpanel"
+        id="relationship-panel"
+        aria-labelledby={`relationship-tab-${activeTab}`}
+      >
+        {loading && <StatusBanner tone="loading">Loading {activeConfig.label.toLowerCase()}...</StatusBanner>}
+        {error && (
+          <ApiErrorNotice
+            error={error}
+            subject={activeConfig.label.toLowerCase()}
+            onRetry={() => setReloadToken((prev) => prev + 1)}
+          />
+        )}
+
+        {page && !loading && (
+          <>
+            <ResourceList
+              withThumbnails
+              emptyText={activeConfig.empty}
+              items={page.entries.map((entry) => ({
+                key: String(entry.id),
+                label: entry.title,
+                to: `${activeConfig.route}/${entry.id}`,
+                state: { from },
+                thumbnail: entry.thumbnail,
+              }))}
+            />
+
+            {total > 0 && (
+              <div className="relationship-tabs__pager">
+                <button
+                  type="button"
+                  onClick={() => goToOffset(offset - PAGE_SIZE)}
+                  disabled={offset === 0}
+                >
+                  Previous
+                </button>
+                <span>
+                  {rangeStart.toLocaleString()}–{rangeEnd.toLocaleString()} of {total.toLocaleString()}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => goToOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default RelationshipTabs;
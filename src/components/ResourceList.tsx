@@ -0,0 +1,60 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { MarvelImage } from '../api/marvel';
+import CharacterImage from './CharacterImage';
+import './ResourceList.css';
+
+export type ResourceListItem = {
+  key: string;
+  label: string;
+  to?: string | null;
+  state?: unknown;
+  note?: string;
+  thumbnail?: MarvelImage | null;
+};
+
+interface ResourceListProps {
+  items: ResourceListItem[];
+  emptyText: string;
+  // Thumbnail lists render as a grid of small covers; plain lists as bullet points.
+  withThumbnails?: boolean;
+  className?: string;
+}
+
+const ResourceList: React.FC<ResourceListProps> = ({ items, emptyText, withThumbnails = false, className }) => {
+  if (items.length === 0) {
+    return <p className="resource-list__empty">{emptyText}</p>;
+  }
+
+  const listClass = `resource-list${withThumbnails ? ' resource-list--thumbnails' : ''}${className ? ` ${className}` : ''}`;
+
+  return (
+    <ul className={listClass}>
+      {items.map((item) => {
+        const content = (
+          <>
+            {withThumbnails && (
+              <CharacterImage thumbnail={item.thumbnail} alt="" width={50} className="resource-list__thumb" />
+            )}
+            <span>{item.label}</span>
+          </>
+        );
+
+        return (
+          <li key={item.key}>
+            {item.to ? (
+              <Link to={item.to} state={item.state} className="resource-list__link">
+                {content}
+              </Link>
+            ) : (
+              <span className="resource-list__text">{content}</span>
+            )}
+            {item.note && <span className="resource-list__note"> ({item.note})</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ResourceList;
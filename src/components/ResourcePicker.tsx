@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import {
+  getComics,
+  getEvents,
+  getSeries,
+  getStoryById,
+  toMarvelApiError,
+  type MarvelApiError,
+} from '../api/marvel';
+import './ResourcePicker.css';
+
+export type PickerKind = 'series' | 'events' | 'comics' | 'stories';
+
+export type PickedResource = {
+  kind: PickerKind;
+  id: number;
+  name: string;
+};
+
+interface ResourcePickerProps {
+  onPick: (resource: PickedResource) => void;
+  excluded?: Set<string>;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SUGGESTION_LIMIT = 10;
+
+export const pickerKinds: { value: PickerKind; label: string; placeholder: string }[] = [
+  { value: 'series', label: 'Series', placeholder: 'Series title starts with…' },
+  { value: 'events', label: 'Events', placeholder: 'Event name starts with…' },
+  { value: 'comics', label: 'Comics', placeholder: 'Comic title starts with…' },
+  { value: 'stories', label: 'Stories', placeholder: 'Story id (stories have no title search)' },
+];
+
+export const pickedKey = (kind: PickerKind, id: number) => `${kind}:${id}`;
+
+const searchResources = async (kind: PickerKind, term: string): Promise<PickedResource[]> => {
+  switch (kind) {
+    case 'series': {
+      const data = await getSeries({ titleStartsWith: term, orderBy: 'title', limit: SUGGESTION_LIMIT });
+      return data.results.map((item) => ({ kind, id: item.id, name: item.title }));
+    }
+    case 'events': {
+      const data = await getEvents({ nameStartsWith: term, orderBy: 'name', limit: SUGGESTION_LIMIT });
+      return data.results.map((item) => ({ kind, id: item.id, name: item.title }));
+    }
+    case 'comics': {
+      const data = await getComics({ titleStartsWith: term, noVariants: true, limit: SUGGESTION_LIMIT });
+      return data.results.map((item) => ({ kind, id: item.id, name: item.title }));
+    }
+    case 'stories': {
+      if (!/^\d+$/.test(term)) {
+        return [];
+      }
+      const story = await getStoryById(term);
+      return story ? [{ kind, id: story.id, name: story.title || `Story #${story.id}` }] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+const ResourcePicker: React.FC<ResourcePickerProps> = ({ onPick, excluded }) => {
+  const [kind, setKind] = useState<PickerKind>('series');
+  const [term, setTerm] = useState('');
+  const [suggestions, setSuggestions] = useState<PickedResource[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+
+  useEffect(() => {
+    const trimmed = term.trim();
+    if (!trimmed) {
+      setSuggestions([]);
+      setError(null);
+      // A search still running is cancelled below, so its own reset never happens.
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeoutId = window.setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+
+      try {
+        const results = await searchResources(kind, trimmed);
+        if (!cancelled) {
+          setSuggestions(results);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const apiError = toMarvelApiError(err);
+          setSuggestions([]);
+          setError(apiError.kind === 'not-found' ? null : apiError);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [kind, term]);
+
+  const activeKind = pickerKinds.find((option) => option.value === kind) ?? pickerKinds[0];
+  const visible = suggestions.filter((item) => !excluded?.has(pickedKey(item.kind, item.id)));
+
+  return (
+    <div className="resource-picker">
+      <div className="resource-picker__controls">
+        <select
+          className="resource-picker__kind"
+          value={kind}
+          aria-label="Filter by"
+          onChange={(event) => {
+            setKind(event.target.value as PickerKind);
+            setSuggestions([]);
+          }}
+        >
+          {pickerKinds.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          className="resource-picker__input"
+          value={term}
+          placeholder={activeKind.placeholder}
+          aria-label={`Find ${activeKind.label.toLowerCase()} to filter by`}
+          onChange={(event) => setTerm(event.target.value)}
+        />
+      </div>
+
+      {searching && <p className="resource-picker__hint">Searching…</p>}
+      {error && <p className="resource-picker__hint">Search failed: {error.message}</p>}
+      {!searching && !error && term.trim() && visible.length === 0 && (
+        <p className="resource-picker__hint">No matching {activeKind.label.toLowerCase()}.</p>
+      )}
+
+      {visible.length > 0 && (
+        <ul className="resource-picker__suggestions">
+          {visible.map((item) => (
+            <li key={pickedKey(item.kind, item.id)}>
+              <button
+                type="button"
+                onClick={() => {
+                  onPick(item);
+                  setTerm('');
+                  setSuggestions([]);
+                }}
+              >
+                {item.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ResourcePicker;
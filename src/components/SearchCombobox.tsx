@@ -0,0 +1,156 @@
+import React, { useEffect, useId, useState } from 'react';
+import type { MatchRange } from '../utils/characterIndex';
+import HighlightedText from './HighlightedText';
+import './SearchCombobox.css';
+
+export interface SearchSuggestion {
+  id: string;
+  value: string;
+  hint: string;
+  ranges?: MatchRange[];
+}
+
+interface SearchComboboxProps {
+  value: string;
+  suggestions: SearchSuggestion[];
+  onChange: (value: string) => void;
+  // Called when the user settles on a query: Enter, or picking a suggestion.
+  onCommit: (value: string) => void;
+  label: string;
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+const SearchCombobox: React.FC<SearchComboboxProps> = ({
+  value,
+  suggestions,
+  onChange,
+  onCommit,
+  label,
+  placeholder,
+  className,
+  inputClassName,
+}) => {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  // -1 leaves the typed text in charge, so Enter searches for exactly what was typed.
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const suggestionKey = suggestions.map((suggestion) => suggestion.id).join('|');
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestionKey]);
+
+  const expanded = open && suggestions.length > 0;
+  const activeSuggestion = expanded ? suggestions[activeIndex] : undefined;
+  const optionId = (suggestion: SearchSuggestion) => `${listId}-${suggestion.id}`;
+
+  const choose = (suggestion: SearchSuggestion) => {
+    setOpen(false);
+    onChange(suggestion.value);
+    onCommit(suggestion.value);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length;
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (!expanded) {
+          setOpen(true);
+          setActiveIndex(event.altKey || count === 0 ? -1 : 0);
+        } else if (!event.altKey) {
+          setActiveIndex((prev) => (prev + 1 >= count ? 0 : prev + 1));
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (!expanded) {
+          setOpen(true);
+          setActiveIndex(count - 1);
+        } else {
+          setActiveIndex((prev) => (prev <= 0 ? count - 1 : prev - 1));
+        }
+        break;
+      case 'Enter':
+        if (activeSuggestion) {
+          event.preventDefault();
+          choose(activeSuggestion);
+        } else {
+          setOpen(false);
+          onCommit(value);
+        }
+        break;
+      case 'Escape':
+        if (expanded) {
+          event.preventDefault();
+          setOpen(false);
+          setActiveIndex(-1);
+        } else if (value) {
+          event.preventDefault();
+          onChange('');
+        }
+        break;
+      case 'Tab':
+        setOpen(false);
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <div className={`search-combobox${className ? ` ${className}` : ''}`}>
+      <input
+        type="search"
+        className={inputClassName}
+        value={value}
+        placeholder={placeholder}
+        role="combobox"
+        aria-label={label}
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={activeSuggestion ? optionId(activeSuggestion) : undefined}
+        aria-autocomplete="list"
+        autoComplete="off"
+        onChange={(event) => {
+          onChange(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      <ul
+        id={listId}
+        role="listbox"
+        aria-label={`${label} suggestions`}
+        className="search-combobox__list"
+        hidden={!expanded}
+      >
+        {expanded &&
+          suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={optionId(suggestion)}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`search-combobox__option${index === activeIndex ? ' search-combobox__option--active' : ''}`}
+              // Keeps focus in the input so the blur handler doesn't close the list before the click lands.
+              onMouseDown={(event) => event.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => choose(suggestion)}
+            >
+              <span className="search-combobox__value">
+                <HighlightedText text={suggestion.value} ranges={suggestion.ranges ?? []} />
+              </span>
+              <span className="search-combobox__hint">{suggestion.hint}</span>
+            </li>
+          ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SearchCombobox;
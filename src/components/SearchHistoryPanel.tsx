@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { RecentSearch, SavedSearch } from '../utils/searchHistory';
+import './SearchHistoryPanel.css';
+
+interface SearchHistoryPanelProps {
+  recent: RecentSearch[];
+  saved: SavedSearch[];
+  currentQuery: string;
+  describeSort: (sort: string) => string;
+  onApplyRecent: (query: string) => void;
+  onApplySaved: (search: SavedSearch) => void;
+  onTogglePin: (query: string) => void;
+  onClearRecent: () => void;
+  onSave: (name: string) => void;
+  onRemoveSaved: (id: string) => void;
+}
+
+const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({
+  recent,
+  saved,
+  currentQuery,
+  describeSort,
+  onApplyRecent,
+  onApplySaved,
+  onTogglePin,
+  onClearRecent,
+  onSave,
+  onRemoveSaved,
+}) => {
+  const [name, setName] = useState('');
+  const canSave = currentQuery.trim() !== '';
+  const hasUnpinned = recent.some((entry) => !entry.pinned);
+
+  const submitSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSave) {
+      return;
+    }
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="search-history">
+      <form className="search-history__save" onSubmit={submitSave}>
+        <input
+          type="text"
+          className="search-history__name"
+          value={name}
+          placeholder={canSave ? currentQuery.trim() : 'Name this search'}
+          aria-label="Saved search name"
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="submit" className="search-history__button" disabled={!canSave}>
+          Save search
+        </button>
+      </form>
+
+      {saved.length > 0 && (
+        <section className="search-history__group" aria-label="Saved searches">
+          <h3 className="search-history__heading">Saved searches</h3>
+          <ul className="search-history__chips">
+            {saved.map((search) => (
+              <li key={search.id} className="search-history__chip">
+                <button
+                  type="button"
+                  className="search-history__apply"
+                  title={`“${search.query}” · ${describeSort(search.sort)}`}
+                  onClick={() => onApplySaved(search)}
+                >
+                  {search.name}
+                </button>
+                <button
+                  type="button"
+                  className="search-history__icon"
+                  aria-label={`Delete saved search ${search.name}`}
+                  onClick={() => onRemoveSaved(search.id)}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {recent.length > 0 && (
+        <section className="search-history__group" aria-label="Recent searches">
+          <div className="search-history__header">
+            <h3 className="search-history__heading">Recent searches</h3>
+            {hasUnpinned && (
+              <button type="button" className="search-history__button" onClick={onClearRecent}>
+                Clear history
+              </button>
+            )}
+          </div>
+          <ul className="search-history__chips">
+            {recent.map((entry) => (
+              <li
+                key={entry.query}
+                className={`search-history__chip${entry.pinned ? ' search-history__chip--pinned' : ''}`}
+              >
+                <button type="button" className="search-history__apply" onClick={() => onApplyRecent(entry.query)}>
+                  {entry.query}
+                </button>
+                <button
+                  type="button"
+                  className="search-history__icon"
+                  aria-label={`Pin ${entry.query}`}
+                  aria-pressed={entry.pinned}
+                  onClick={() => onTogglePin(entry.query)}
+                >
+                  {entry.pinned ? '★' : '☆'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SearchHistoryPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useShortcut } from '../hooks/useShortcut';
+import './KeyboardOverlays.css';
+
+const shortcutGroups: { title: string; shortcuts: { keys: string[]; description: string }[] }[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: ['Ctrl', 'K'], description: 'Open the command palette (⌘K on macOS)' },
+      { keys: ['?'], description: 'Show or hide this list' },
+      { keys: ['Esc'], description: 'Close the palette or this list' },
+    ],
+  },
+  {
+    title: 'Character detail',
+    shortcuts: [
+      { keys: ['←'], description: 'Previous character' },
+      { keys: ['→'], description: 'Next character' },
+      { keys: ['K'], description: 'Previous character' },
+      { keys: ['J'], description: 'Next character' },
+    ],
+  },
+  {
+    title: 'List and gallery',
+    shortcuts: [
+      { keys: ['↑', '↓', '←', '→'], description: 'Move between results once one has focus' },
+      { keys: ['Home', 'End'], description: 'Jump to the first or last result' },
+      { keys: ['Enter'], description: 'Open the focused character' },
+    ],
+  },
+];
+
+const ShortcutHelp: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const location = useLocation();
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+
+  useShortcut(['?'], () => setOpen((prev) => !prev));
+  useShortcut(['Escape'], () => setOpen(false), { enabled: open });
+
+  useEffect(() => {
+    setOpen(false);
+  }, [location.pathname]);
+
+  useEffect(() => {
+    if (open) {
+      closeRef.current?.focus();
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="keyboard-overlay" onMouseDown={() => setOpen(false)}>
+      <div
+        className="keyboard-overlay__dialog shortcut-help"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <div className="shortcut-help__header">
+          <h2 id="shortcut-help-title">Keyboard shortcuts</h2>
+          <button ref={closeRef} type="button" className="shortcut-help__close" onClick={() => setOpen(false)}>
+            Close
+          </button>
+        </div>
+        {shortcutGroups.map((group) => (
+          <section key={group.title} className="shortcut-help__group">
+            <h3>{group.title}</h3>
+            <dl>
+              {group.shortcuts.map((shortcut) => (
+                <div key={`${group.title}-${shortcut.description}-${shortcut.keys.join()}`}>
+                  <dt>
+                    {shortcut.keys.map((key) => (
+                      <kbd key={key}>{key}</kbd>
+                    ))}
+                  </dt>
+                  <dd>{shortcut.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  MAX_SORT_KEYS,
+  describeSortKey,
+  parseSortKeys,
+  sortOptions,
+  toSortValue,
+  type SortKey,
+} from '../utils/characterSort';
+import './SortControls.css';
+
+interface SortControlsProps {
+  keys: SortKey[];
+  onChange: (keys: SortKey[]) => void;
+  disabled?: boolean;
+  // Shown as a tooltip while the controls are disabled.
+  disabledReason?: string;
+  className?: string;
+}
+
+const replaceKey = (keys: SortKey[], index: number, value: string): SortKey[] => {
+  const [next] = parseSortKeys(value);
+  // Picking a field a later key already uses drops that later key rather than sorting by it twice.
+  return [...keys.slice(0, index), next, ...keys.slice(index + 1).filter((key) => key.field !== next.field)];
+};
+
+const SortControls: React.FC<SortControlsProps> = ({ keys, onChange, disabled, disabledReason, className }) => {
+  const [primary, ...tieBreakers] = keys;
+  const title = disabled ? disabledReason : undefined;
+  const unusedOptions = sortOptions.filter((option) => !keys.some((key) => key.field === option.field));
+
+  const addTieBreaker = () => {
+    const [next] = unusedOptions;
+    if (next) {
+      onChange([...keys, ...parseSortKeys(next.value)]);
+    }
+  };
+
+  // Tie-breakers may not repeat an earlier field; their own current field stays available.
+  const optionsFor = (index: number) =>
+    sortOptions.filter((option) => !keys.slice(0, index).some((key) => key.field === option.field));
+
+  return (
+    <div className={`sort-controls${className ? ` ${className}` : ''}`}>
+      <select
+        value={toSortValue(primary)}
+        onChange={(event) => onChange(replaceKey(keys, 0, event.target.value))}
+        className="sort-controls__select"
+        aria-label="Sort characters"
+        disabled={disabled}
+        title={title}
+      >
+        {sortOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {tieBreakers.map((key, offset) => {
+        const index = offset + 1;
+        return (
+          <span key={index} className="sort-controls__tie-breaker">
+            <span className="sort-controls__then">then</span>
+            <select
+              value={toSortValue(key)}
+              onChange={(event) => onChange(replaceKey(keys, index, event.target.value))}
+              className="sort-controls__select"
+              aria-label={`Tie-breaker ${index}`}
+              disabled={disabled}
+              title={title}
+            >
+              {optionsFor(index).map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="sort-controls__remove"
+              onClick={() => onChange(keys.filter((_, position) => position !== index))}
+              aria-label={`Remove tie-breaker ${describeSortKey(key)}`}
+              disabled={disabled}
+            >
+              ✕
+            </button>
+          </span>
+        );
+      })}
+
+      {keys.length < MAX_SORT_KEYS && unusedOptions.length > 0 && (
+        <button type="button" className="sort-controls__add" onClick={addTieBreaker} disabled={disabled} title={title}>
+          Add tie-breaker
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SortControls;
@@ -0,0 +1,25 @@
+import React from 'react';
+import './StatusBanner.css';
+
+export type StatusTone = 'loading' | 'empty' | 'info' | 'error';
+
+interface StatusBannerProps {
+  tone?: StatusTone;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Marvel API failures go through ApiErrorNotice, which knows how to explain and retry them.
+const StatusBanner: React.FC<StatusBannerProps> = ({ tone = 'info', className, children }) => {
+  return (
+    <div
+      className={`status-banner status-banner--${tone}${className ? ` ${className}` : ''}`}
+      role={tone === 'error' ? 'alert' : 'status'}
+      aria-busy={tone === 'loading' || undefined}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default StatusBanner;
@@ -0,0 +1,108 @@
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import {
+  classifyActivity,
+  defaultActivitySettings,
+  scoreActivity,
+  type ActivityCounts,
+  type ActivityTier,
+} from '../utils/activity';
+import { ACTIVITY_SETTINGS_STORAGE_KEY, loadActivitySettings, saveActivitySettings } from './activitySettingsStorage';
+
+interface ActivitySettingsContextValue {
+  tiers: ActivityTier[];
+  weights: ActivityCounts;
+  classify: (counts: ActivityCounts) => ActivityTier | null;
+  score: (counts: ActivityCounts) => number;
+  addTier: () => void;
+  updateTier: (tierId: string, changes: Partial<Omit<ActivityTier, 'id'>>) => void;
+  removeTier: (tierId: string) => void;
+  moveTier: (tierId: string, offset: number) => void;
+  setWeight: (key: keyof ActivityCounts, value: number) => void;
+  resetSettings: () => void;
+}
+
+const ActivitySettingsContext = createContext<ActivitySettingsContextValue | null>(null);
+
+const createTierId = () => `tier-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const ActivitySettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = usePersistentState(
+    ACTIVITY_SETTINGS_STORAGE_KEY,
+    loadActivitySettings,
+    saveActivitySettings
+  );
+
+  const classify = useCallback((counts: ActivityCounts) => classifyActivity(counts, settings), [settings]);
+
+  const score = useCallback((counts: ActivityCounts) => scoreActivity(counts, settings.weights), [settings.weights]);
+
+  const addTier = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      tiers: [...prev.tiers, { id: createTierId(), name: 'New tier', metric: 'comics', min: 0, max: null }],
+    }));
+  }, [setSettings]);
+
+  // Ranges are left as typed so a half-entered bound isn't clamped mid-edit; an inverted range just matches nothing.
+  const updateTier = useCallback((tierId: string, changes: Partial<Omit<ActivityTier, 'id'>>) => {
+    setSettings((prev) => ({
+      ...prev,
+      tiers: prev.tiers.map((tier) => (tier.id === tierId ? { ...tier, ...changes } : tier)),
+    }));
+  }, [setSettings]);
+
+  const removeTier = useCallback((tierId: string) => {
+    setSettings((prev) => ({ ...prev, tiers: prev.tiers.filter((tier) => tier.id !== tierId) }));
+  }, [setSettings]);
+
+  const moveTier = useCallback((tierId: string, offset: number) => {
+    setSettings((prev) => {
+      const index = prev.tiers.findIndex((tier) => tier.id === tierId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.tiers.length) {
+        return prev;
+      }
+
+      const tiers = [...prev.tiers];
+      const [tier] = tiers.splice(index, 1);
+      tiers.splice(target, 0, tier);
+      return { ...prev, tiers };
+    });
+  }, [setSettings]);
+
+  const setWeight = useCallback((key: keyof ActivityCounts, value: number) => {
+    setSettings((prev) => ({
+      ...prev,
+      weights: { ...prev.weights, [key]: Number.isFinite(value) ? value : 0 },
+    }));
+  }, [setSettings]);
+
+  const resetSettings = useCallback(() => setSettings(defaultActivitySettings()), [setSettings]);
+
+  const value = useMemo(
+    () => ({
+      tiers: settings.tiers,
+      weights: settings.weights,
+      classify,
+      score,
+      addTier,
+      updateTier,
+      removeTier,
+      moveTier,
+      setWeight,
+      resetSettings,
+    }),
+    [settings, classify, score, addTier, updateTier, removeTier, moveTier, setWeight, resetSettings]
+  );
+
+  return <ActivitySettingsContext.Provider value={value}>{children}</ActivitySettingsContext.Provider>;
+};
+
+export const useActivitySettings = (): ActivitySettingsContextValue => {
+  const context = useContext(ActivitySettingsContext);
+  if (!context) {
+    throw new Error('useActivitySettings must be used inside an ActivitySettingsProvider.');
+  }
+  return context;
+};
@@ -0,0 +1,49 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import type { CharacterRef } from './rosterStorage';
+
+export const MAX_COMPARE = 3;
+
+interface CompareContextValue {
+  selection: CharacterRef[];
+  isSelected: (id: number) => boolean;
+  toggleCompare: (character: CharacterRef) => void;
+  clearCompare: () => void;
+  canAdd: boolean;
+}
+
+const CompareContext = createContext<CompareContextValue | null>(null);
+
+export const CompareProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [selection, setSelection] = useState<CharacterRef[]>([]);
+
+  const isSelected = useCallback((id: number) => selection.some((item) => item.id === id), [selection]);
+
+  const toggleCompare = useCallback((character: CharacterRef) => {
+    setSelection((prev) => {
+      if (prev.some((item) => item.id === character.id)) {
+        return prev.filter((item) => item.id !== character.id);
+      }
+
+      return prev.length >= MAX_COMPARE ? prev : [...prev, character];
+    });
+  }, []);
+
+  const clearCompare = useCallback(() => setSelection([]), []);
+
+  const value = useMemo(
+    () => ({ selection, isSelected, toggleCompare, clearCompare, canAdd: selection.length < MAX_COMPARE }),
+    [selection, isSelected, toggleCompare, clearCompare]
+  );
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
+
+export const useCompare = (): CompareContextValue => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used inside a CompareProvider.');
+  }
+  return context;
+};
+
+export const buildCompareLink = (ids: number[]) => `/compare?ids=${ids.join(',')}`;
@@ -0,0 +1,176 @@
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import {
+  ROSTER_STORAGE_KEY,
+  loadRosterState,
+  saveRosterState,
+  type CharacterRef,
+  type Team,
+} from './rosterStorage';
+
+export type { CharacterRef, Team } from './rosterStorage';
+
+interface RostersContextValue {
+  favorites: CharacterRef[];
+  teams: Team[];
+  isFavorite: (id: number) => boolean;
+  toggleFavorite: (character: CharacterRef) => void;
+  createTeam: (name: string, members?: CharacterRef[]) => Team;
+  renameTeam: (teamId: string, name: string) => void;
+  deleteTeam: (teamId: string) => void;
+  moveTeam: (teamId: string, offset: number) => void;
+  addToTeam: (teamId: string, character: CharacterRef) => void;
+  removeFromTeam: (teamId: string, characterId: number) => void;
+  moveMember: (teamId: string, characterId: number, offset: number) => void;
+}
+
+const RostersContext = createContext<RostersContextValue | null>(null);
+
+const moveItem = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= items.length) {
+    return items;
+  }
+
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+};
+
+const createTeamId = () => `team-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const RostersProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = usePersistentState(ROSTER_STORAGE_KEY, loadRosterState, saveRosterState);
+
+  const updateTeam = useCallback((teamId: string, update: (team: Team) => Team) => {
+    setState((prev) => ({
+      ...prev,
+      teams: prev.teams.map((team) => (team.id === teamId ? update(team) : team)),
+    }));
+  }, [setState]);
+
+  const isFavorite = useCallback((id: number) => state.favorites.some((item) => item.id === id), [state.favorites]);
+
+  const toggleFavorite = useCallback((character: CharacterRef) => {
+    setState((prev) => {
+      const exists = prev.favorites.some((item) => item.id === character.id);
+      return {
+        ...prev,
+        favorites: exists
+          ? prev.favorites.filter((item) => item.id !== character.id)
+          : [...prev.favorites, character],
+      };
+    });
+  }, [setState]);
+
+  const createTeam = useCallback((name: string, members: CharacterRef[] = []) => {
+    const team: Team = {
+      id: createTeamId(),
+      name: name.trim() || 'Untitled team',
+      members,
+      createdAt: new Date().toISOString(),
+    };
+
+    setState((prev) => ({ ...prev, teams: [...prev.teams, team] }));
+    return team;
+  }, [setState]);
+
+  const renameTeam = useCallback(
+    (teamId: string, name: string) => {
+      const trimmed = name.trim();
+      if (trimmed) {
+        updateTeam(teamId, (team) => ({ ...team, name: trimmed }));
+      }
+    },
+    [updateTeam]
+  );
+
+  const deleteTeam = useCallback((teamId: string) => {
+    setState((prev) => ({ ...prev, teams: prev.teams.filter((team) => team.id !== teamId) }));
+  }, [setState]);
+
+  const moveTeam = useCallback((teamId: string, offset: number) => {
+    setState((prev) => ({
+      ...prev,
+      teams: moveItem(
+        prev.teams,
+        prev.teams.findIndex((team) => team.id === teamId),
+        offset
+      ),
+    }));
+  }, [setState]);
+
+  const addToTeam = useCallback(
+    (teamId: string, character: CharacterRef) => {
+      updateTeam(teamId, (team) =>
+        team.members.some((member) => member.id === character.id)
+          ? team
+          : { ...team, members: [...team.members, character] }
+      );
+    },
+    [updateTeam]
+  );
+
+  const removeFromTeam = useCallback(
+    (teamId: string, characterId: number) => {
+      updateTeam(teamId, (team) => ({
+        ...team,
+        members: team.members.filter((member) => member.id !== characterId),
+      }));
+    },
+    [updateTeam]
+  );
+
+  const moveMember = useCallback(
+    (teamId: string, characterId: number, offset: number) => {
+      updateTeam(teamId, (team) => ({
+        ...team,
+        members: moveItem(
+          team.members,
+          team.members.findIndex((member) => member.id === characterId),
+          offset
+        ),
+      }));
+    },
+    [updateTeam]
+  );
+
+  const value = useMemo(
+    () => ({
+      favorites: state.favorites,
+      teams: state.teams,
+      isFavorite,
+      toggleFavorite,
+      createTeam,
+      renameTeam,
+      deleteTeam,
+      moveTeam,
+      addToTeam,
+      removeFromTeam,
+      moveMember,
+    }),
+    [
+      state,
+      isFavorite,
+      toggleFavorite,
+      createTeam,
+      renameTeam,
+      deleteTeam,
+      moveTeam,
+      addToTeam,
+      removeFromTeam,
+      moveMember,
+    ]
+  );
+
+  return <RostersContext.Provider value={value}>{children}</RostersContext.Provider>;
+};
+
+export const useRosters = (): RostersContextValue => {
+  const context = useContext(RostersContext);
+  if (!context) {
+    throw new Error('useRosters must be used inside a RostersProvider.');
+  }
+  return context;
+};
@@ -0,0 +1,68 @@
+import {
+  ACTIVITY_COUNT_KEYS,
+  METRIC_LABELS,
+  defaultActivitySettings,
+  type ActivityCounts,
+  type ActivityMetric,
+  type ActivitySettings,
+  type ActivityTier,
+} from '../utils/activity';
+import { getLocalStorage, readStoredJson, writeStoredJson } from '../utils/storage';
+
+interface StoredActivitySettingsV1 extends ActivitySettings {
+  version: 1;
+}
+
+export const ACTIVITY_SETTINGS_STORAGE_KEY = 'marvel-explorer:activity-settings';
+const CURRENT_VERSION = 1;
+
+const isMetric = (value: unknown): value is ActivityMetric =>
+  typeof value === 'string' && Object.keys(METRIC_LABELS).includes(value);
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const sanitizeTier = (value: unknown): ActivityTier | null => {
+  const candidate = value as Partial<ActivityTier> | null;
+  if (!candidate || typeof candidate.id !== 'string' || typeof candidate.name !== 'string') {
+    return null;
+  }
+
+  const min = Math.max(0, toNumber(candidate.min, 0));
+  const max = candidate.max === null || candidate.max === undefined ? null : Math.max(0, toNumber(candidate.max, min));
+  return {
+    id: candidate.id,
+    name: candidate.name,
+    metric: isMetric(candidate.metric) ? candidate.metric : 'comics',
+    min,
+    max,
+  };
+};
+
+const sanitizeWeights = (value: unknown): ActivityCounts => {
+  const defaults = defaultActivitySettings().weights;
+  const candidate = (value ?? {}) as Partial<ActivityCounts>;
+  return ACTIVITY_COUNT_KEYS.reduce(
+    (weights, key) => ({ ...weights, [key]: toNumber(candidate[key], defaults[key]) }),
+    defaults
+  );
+};
+
+export const loadActivitySettings = (storage: Storage | null = getLocalStorage()): ActivitySettings => {
+  const parsed = readStoredJson(ACTIVITY_SETTINGS_STORAGE_KEY, storage) as Partial<StoredActivitySettingsV1> | null;
+  if (parsed?.version !== CURRENT_VERSION) {
+    return defaultActivitySettings();
+  }
+
+  return {
+    tiers: Array.isArray(parsed.tiers)
+      ? parsed.tiers.map(sanitizeTier).filter((tier): tier is ActivityTier => tier !== null)
+      : defaultActivitySettings().tiers,
+    weights: sanitizeWeights(parsed.weights),
+  };
+};
+
+export const saveActivitySettings = (settings: ActivitySettings, storage: Storage | null = getLocalStorage()) => {
+  const stored: StoredActivitySettingsV1 = { version: CURRENT_VERSION, ...settings };
+  writeStoredJson(ACTIVITY_SETTINGS_STORAGE_KEY, stored, storage);
+};
@@ -0,0 +1,66 @@
+import { getLocalStorage, readStoredJson, writeStoredJson } from '../utils/storage';
+
+export interface CharacterRef {
+  id: number;
+  name: string;
+  thumbnailUrl?: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  members: CharacterRef[];
+  createdAt: string;
+}
+
+export interface RosterState {
+  favorites: CharacterRef[];
+  teams: Team[];
+}
+
+interface StoredRosterStateV1 extends RosterState {
+  version: 1;
+}
+
+export const ROSTER_STORAGE_KEY = 'marvel-explorer:rosters';
+const CURRENT_VERSION = 1;
+
+export const emptyRosterState = (): RosterState => ({ favorites: [], teams: [] });
+
+const isCharacterRef = (value: unknown): value is CharacterRef => {
+  const candidate = value as CharacterRef | null;
+  return Boolean(candidate) && typeof candidate?.id === 'number' && typeof candidate?.name === 'string';
+};
+
+const sanitizeTeam = (value: unknown): Team | null => {
+  const candidate = value as Partial<Team> | null;
+  if (!candidate || typeof candidate.id !== 'string' || typeof candidate.name !== 'string') {
+    return null;
+  }
+
+  return {
+    id: candidate.id,
+    name: candidate.name,
+    members: Array.isArray(candidate.members) ? candidate.members.filter(isCharacterRef) : [],
+    createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date().toISOString(),
+  };
+};
+
+export const loadRosterState = (storage: Storage | null = getLocalStorage()): RosterState => {
+  const parsed = readStoredJson(ROSTER_STORAGE_KEY, storage) as Partial<StoredRosterStateV1> | null;
+  if (parsed?.version !== CURRENT_VERSION) {
+    return emptyRosterState();
+  }
+
+  return {
+    favorites: Array.isArray(parsed.favorites) ? parsed.favorites.filter(isCharacterRef) : [],
+    teams: Array.isArray(parsed.teams)
+      ? parsed.teams.map(sanitizeTeam).filter((team): team is Team => team !== null)
+      : [],
+  };
+};
+
+export const saveRosterState = (state: RosterState, storage: Storage | null = getLocalStorage()) => {
+  const stored: StoredRosterStateV1 = { version: CURRENT_VERSION, ...state };
+  writeStoredJson(ROSTER_STORAGE_KEY, stored, storage);
+};
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getAllCharacters, getCharacters, type CharacterSearchParams, type MarvelCharacter } from '../api/marvel';
+import { useActivitySettings } from '../context/ActivitySettingsContext';
+import { useRosters } from '../context/RostersContext';
+import { activityCounts, type ActivityCounts } from '../utils/activity';
+import { getIndexedCharacters, searchCharacterIndex } from '../utils/characterIndex';
+import { FULL_SORT_LIMIT, compareBySortKeys, isServerSortable, toOrderBy } from '../utils/characterSort';
+import { describeNeighborContext, parseNeighborContext, type NeighborContext } from '../utils/neighborContext';
+
+export type NeighborRef = {
+  id: number;
+  name: string;
+};
+
+interface NeighborPage {
+  items: NeighborRef[];
+  total: number;
+}
+
+// Everything a context can list, loaded a page at a time by absolute offset.
+interface NeighborSource {
+  label: string | null;
+  load: (offset: number, limit: number) => Promise<NeighborPage>;
+  // Set when the whole list is already in memory, so no loading is needed.
+  items?: NeighborRef[];
+}
+
+interface NeighborWindow {
+  source: NeighborSource;
+  offset: number;
+  items: NeighborRef[];
+  total: number;
+}
+
+interface UseNeighborsOptions {
+  characterId: number;
+  // Needed for the alphabetical fallback, so that one waits until the character has loaded.
+  name: string | null;
+  from: string | null;
+  at: number | null;
+  stateNeighbors: NeighborRef[] | null;
+}
+
+// Matches the list view's page size, so stepping through a search reuses its cached pages.
+const PAGE_SIZE = 20;
+const SCAN_LIMIT = 1000;
+const FUZZY_LIMIT = 60;
+
+const toRef = ({ id, name }: { id: number; name: string }): NeighborRef => ({ id, name });
+
+const listSource = (items: NeighborRef[], label: string | null): NeighborSource => ({
+  label,
+  load: async (offset, limit) => ({ items: items.slice(offset, offset + limit), total: items.length }),
+  items,
+});
+
+const querySource = (params: CharacterSearchParams, label: string | null): NeighborSource => ({
+  label,
+  load: async (offset, limit) => {
+    const data = await getCharacters({ ...params, offset, limit });
+    return { items: data.results.map(toRef), total: data.total };
+  },
+});
+
+// Count-based sorts can't be paged on the server, so the whole set is loaded once and sorted here.
+const sortedSource = (
+  params: CharacterSearchParams,
+  compare: (a: MarvelCharacter, b: MarvelCharacter) => number,
+  label: string
+): NeighborSource => {
+  let all: Promise<NeighborRef[]> | null = null;
+  return {
+    label,
+    load: async (offset, limit) => {
+      all =
+        all ??
+        getAllCharacters(params, { max: FULL_SORT_LIMIT }).then((data) =>
+          [...data.results].sort(compare).map(toRef)
+        );
+      const items = await all;
+      return { items: items.slice(offset, offset + limit), total: items.length };
+    },
+  };
+};
+
+const buildContextSource = (
+  context: NeighborContext,
+  label: string,
+  score: (counts: ActivityCounts) => number
+): NeighborSource | null => {
+  switch (context.kind) {
+    case 'search': {
+      if (context.fuzzy) {
+        return listSource(
+          searchCharacterIndex(context.query, FUZZY_LIMIT).map((hit) => toRef(hit.character)),
+          label
+        );
+      }
+      if (isServerSortable(context.sort)) {
+        return querySource({ nameStartsWith: context.query, orderBy: toOrderBy(context.sort) }, label);
+      }
+      const compare = compareBySortKeys(context.sort, score);
+      return sortedSource(
+        { nameStartsWith: context.query, orderBy: 'name' },
+        (a, b) =>
+          compare(
+            { name: a.name, modified: a.modified ?? '', activity: activityCounts(a) },
+            { name: b.name, modified: b.modified ?? '', activity: activityCounts(b) }
+          ),
+        label
+      );
+    }
+    case 'gallery':
+      return context.query ? querySource(context.query, label) : null;
+    case 'compare': {
+      const names = new Map(getIndexedCharacters().map((character) => [character.id, character.name]));
+      return listSource(
+        context.ids.map((id) => ({ id, name: names.get(id) ?? `#${id}` })),
+        label
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+// Keeps a window of the context around the current character, so Previous/Next and "3 of 57" work from any entry
+// point and the next page is fetched before the window runs out.
+export const useNeighbors = ({ characterId, name, from, at, stateNeighbors }: UseNeighborsOptions) => {
+  const { teams, favorites } = useRosters();
+  const { score } = useActivitySettings();
+  const context = useMemo(() => parseNeighborContext(from), [from]);
+  const letter = name?.trim().slice(0, 1).toUpperCase() || null;
+
+  const contextSource = useMemo((): NeighborSource | null => {
+    if (context?.kind === 'team') {
+      const team = teams.find((candidate) => candidate.id === context.teamId);
+      if (team) {
+        return listSource(team.members.map(toRef), describeNeighborContext(context, team.name));
+      }
+    } else if (context?.kind === 'favorites') {
+      return listSource(favorites.map(toRef), describeNeighborContext(context));
+    } else if (context) {
+      const built = buildContextSource(context, describeNeighborContext(context), score);
+      if (built) {
+        return built;
+      }
+    }
+
+    if (stateNeighbors) {
+      return listSource(stateNeighbors, context && context.kind !== 'team' ? describeNeighborContext(context) : null);
+    }
+    return null;
+  }, [context, teams, favorites, score, stateNeighbors]);
+
+  // No usable context: walk the characters sharing this one's initial, in name order.
+  const letterSource = useMemo(
+    () =>
+      letter
+        ? querySource({ nameStartsWith: letter, orderBy: 'name' }, `among characters starting with '${letter}'`)
+        : null,
+    [letter]
+  );
+
+  // A list that no longer holds this character, such as a team it was removed from, is no help either.
+  const usable = contextSource && (!contextSource.items || contextSource.items.some((item) => item.id === characterId));
+  const source = usable ? contextSource : letterSource;
+
+  const [loaded, setLoaded] = useState<NeighborWindow | null>(null);
+
+  useEffect(() => {
+    if (!source || source.items) {
+      return;
+    }
+
+    let cancelled = false;
+    const current = loaded?.source === source ? loaded : null;
+    const position = current ? current.items.findIndex((item) => item.id === characterId) : -1;
+
+    if (current && position >= 0) {
+      const end = current.offset + current.items.length;
+      if (position === 0 && current.offset > 0) {
+        const offset = Math.max(0, current.offset - PAGE_SIZE);
+        source
+          .load(offset, current.offset - offset)
+          .then((page) => {
+            if (!cancelled && page.items.length > 0) {
+              setLoaded({ ...current, offset, items: [...page.items, ...current.items], total: page.total });
+            }
+          })
+          .catch(() => undefined);
+      } else if (position === current.items.length - 1 && end < current.total) {
+        source
+          .load(end, PAGE_SIZE)
+          .then((page) => {
+            if (!cancelled) {
+              // An empty page means the total overstated what is there; clamping it stops further requests.
+              setLoaded({
+                ...current,
+                items: [...current.items, ...page.items],
+                total: page.items.length > 0 ? page.total : end,
+              });
+            }
+          })
+          .catch(() => undefined);
+      }
+
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const contains = (page: NeighborPage) => page.items.some((item) => item.id === characterId);
+
+    // Try the page the link said the character was on, then scan from the start.
+    const locate = async (): Promise<NeighborWindow | null> => {
+      if (at !== null) {
+        const offset = Math.floor(at / PAGE_SIZE) * PAGE_SIZE;
+        const page = await source.load(offset, PAGE_SIZE);
+        if (contains(page)) {
+          return { source, offset, ...page };
+        }
+      }
+
+      for (let offset = 0; offset < SCAN_LIMIT; offset += PAGE_SIZE) {
+        const page = await source.load(offset, PAGE_SIZE);
+        if (contains(page)) {
+          return { source, offset, ...page };
+        }
+        if (page.items.length === 0 || offset + page.items.length >= page.total) {
+          break;
+        }
+      }
+      return null;
+    };
+
+    const standalone: NeighborWindow = { source, offset: 0, items: [{ id: characterId, name: name ?? '' }], total: 1 };
+    locate()
+      .then((found) => {
+        if (!cancelled) {
+          setLoaded(found ?? standalone);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoaded(standalone);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, characterId, at, name, loaded]);
+
+  const current = source?.items
+    ? { source, offset: 0, items: source.items, total: source.items.length }
+    : loaded?.source === source
+      ? loaded
+      : null;
+  const position = current ? current.items.findIndex((item) => item.id === characterId) : -1;
+  if (!current || position < 0) {
+    return { previous: null, next: null, index: null, total: null, label: null };
+  }
+
+  return {
+    previous: current.items[position - 1] ?? null,
+    next: current.items[position + 1] ?? null,
+    index: current.offset + position,
+    total: current.total,
+    label: current.source.label,
+  };
+};
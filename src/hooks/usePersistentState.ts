@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+
+// State that is saved on every change and reloaded when another tab writes the same key, so open tabs stay in step.
+// Pass module-level `load` and `save` functions so their identity never changes.
+export const usePersistentState = <T>(
+  key: string,
+  load: () => T,
+  save: (value: T) => void
+): [T, Dispatch<SetStateAction<T>>] => {
+  const [state, setState] = useState<T>(load);
+  const stateRef = useRef(state);
+
+  // Saves straight away rather than in an effect, so a change made by a click that also navigates away and
+  // unmounts the caller is still stored.
+  const update = useCallback(
+    (action: SetStateAction<T>) => {
+      const next = action instanceof Function ? action(stateRef.current) : action;
+      stateRef.current = next;
+      save(next);
+      setState(next);
+    },
+    [save]
+  );
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === key) {
+        stateRef.current = load();
+        setState(stateRef.current);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key, load]);
+
+  return [state, update];
+};
@@ -0,0 +1,89 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface RovingFocusOptions {
+  // Items per row, so up and down skip a whole row in a grid; lists treat every arrow as previous/next.
+  columns?: number;
+  // Virtualized lists only mount what is on screen; this brings an unmounted item into view so it can take focus.
+  scrollToIndex?: (index: number) => void;
+  // The slice a virtualized list currently renders; the tab stop falls back to its first item when the active one
+  // is scrolled away.
+  renderedRange?: { start: number; end: number };
+}
+
+export type RovingItemProps<T extends HTMLElement> = {
+  ref: (element: T | null) => void;
+  tabIndex: number;
+  onFocus: () => void;
+};
+
+// Keeps a single item in the tab order and moves focus between items with the arrow keys, Home and End.
+export const useRovingFocus = <T extends HTMLElement>(
+  count: number,
+  { columns = 1, scrollToIndex, renderedRange }: RovingFocusOptions = {}
+) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const itemsRef = useRef<(T | null)[]>([]);
+  const pendingFocusRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    itemsRef.current.length = count;
+    if (activeIndex >= count) {
+      setActiveIndex(Math.max(0, count - 1));
+    }
+  }, [count, activeIndex]);
+
+  const onKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      pendingFocusRef.current = null;
+      const current = itemsRef.current.findIndex((item) => item === document.activeElement);
+      if (current === -1) {
+        return;
+      }
+
+      const moves: Record<string, number> = {
+        ArrowRight: current + 1,
+        ArrowLeft: current - 1,
+        ArrowDown: current + columns,
+        ArrowUp: current - columns,
+        Home: 0,
+        End: count - 1,
+      };
+
+      if (!(event.key in moves)) {
+        return;
+      }
+
+      event.preventDefault();
+      const next = Math.min(count - 1, Math.max(0, moves[event.key]));
+      setActiveIndex(next);
+
+      const target = itemsRef.current[next];
+      if (target) {
+        target.focus();
+      } else if (scrollToIndex) {
+        pendingFocusRef.current = next;
+        scrollToIndex(next);
+      }
+    },
+    [count, columns, scrollToIndex]
+  );
+
+  const tabStop =
+    renderedRange && (activeIndex < renderedRange.start || activeIndex >= renderedRange.end)
+      ? renderedRange.start
+      : activeIndex;
+
+  const getItemProps = (index: number): RovingItemProps<T> => ({
+    ref: (element: T | null) => {
+      itemsRef.current[index] = element;
+      if (element && pendingFocusRef.current === index) {
+        pendingFocusRef.current = null;
+        element.focus();
+      }
+    },
+    tabIndex: index === tabStop ? 0 : -1,
+    onFocus: () => setActiveIndex(index),
+  });
+
+  return { getItemProps, onKeyDown };
+};
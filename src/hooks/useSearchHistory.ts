@@ -0,0 +1,30 @@
+import { useCallback, useMemo } from 'react';
+import {
+  SEARCH_HISTORY_STORAGE_KEY,
+  addSavedSearch,
+  clearRecentSearches,
+  loadSearchHistory,
+  orderRecentSearches,
+  recordSearch,
+  removeSavedSearch,
+  saveSearchHistory,
+  togglePinnedSearch,
+} from '../utils/searchHistory';
+import { usePersistentState } from './usePersistentState';
+
+export const useSearchHistory = () => {
+  const [state, setState] = usePersistentState(SEARCH_HISTORY_STORAGE_KEY, loadSearchHistory, saveSearchHistory);
+
+  const record = useCallback((query: string) => setState((prev) => recordSearch(prev, query)), [setState]);
+  const togglePin = useCallback((query: string) => setState((prev) => togglePinnedSearch(prev, query)), [setState]);
+  const clearRecent = useCallback(() => setState((prev) => clearRecentSearches(prev)), [setState]);
+  const saveSearch = useCallback(
+    (name: string, query: string, sort: string) => setState((prev) => addSavedSearch(prev, { name, query, sort })),
+    [setState]
+  );
+  const removeSaved = useCallback((id: string) => setState((prev) => removeSavedSearch(prev, id)), [setState]);
+
+  const recent = useMemo(() => orderRecentSearches(state.recent), [state.recent]);
+
+  return { recent, saved: state.saved, record, togglePin, clearRecent, saveSearch, removeSaved };
+};
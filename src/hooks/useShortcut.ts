@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+
+interface ShortcutOptions {
+  enabled?: boolean;
+  // Shortcuts stay quiet while the user is typing unless a caller opts in (e.g. Ctrl+K).
+  allowInInputs?: boolean;
+}
+
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Shortcuts are written like `mod+k`, `j` or `ArrowLeft`; `mod` is Ctrl, or Cmd on macOS.
+export const matchesShortcut = (event: KeyboardEvent, shortcut: string): boolean => {
+  const parts = shortcut.toLowerCase().split('+');
+  const key = parts.pop();
+  const wantsMod = parts.includes('mod');
+
+  if (wantsMod !== (event.ctrlKey || event.metaKey) || event.altKey) {
+    return false;
+  }
+
+  return event.key.toLowerCase() === key;
+};
+
+export const useShortcut = (
+  shortcuts: string[],
+  handler: (event: KeyboardEvent) => void,
+  { enabled = true, allowInInputs = false }: ShortcutOptions = {}
+) => {
+  const handlerRef = useRef(handler);
+  const shortcutList = shortcuts.join(' ');
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || (!allowInInputs && isEditable(event.target))) {
+        return;
+      }
+
+      if (shortcutList.split(' ').some((shortcut) => matchesShortcut(event, shortcut))) {
+        event.preventDefault();
+        handlerRef.current(event);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shortcutList, enabled, allowInInputs]);
+};
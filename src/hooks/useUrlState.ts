@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export type UrlStateChanges = Record<string, string | string[] | null | undefined>;
+
+// Reads view state from the query string and writes changes back, dropping empty values so URLs stay short.
+export const useUrlState = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const update = useCallback(
+    (changes: UrlStateChanges, options: { replace?: boolean } = {}) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+
+          Object.entries(changes).forEach(([key, value]) => {
+            next.delete(key);
+
+            if (Array.isArray(value)) {
+              value.filter(Boolean).forEach((item) => next.append(key, item));
+            } else if (value) {
+              next.set(key, value);
+            }
+          });
+
+          return next;
+        },
+        { replace: options.replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [searchParams, update] as const;
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { useVirtualGrid } from './useVirtualGrid';
+
+const VirtualList: React.FC<{ count: number }> = ({ count }) => {
+  const list = useVirtualGrid<HTMLUListElement>({ count, estimatedRowHeight: 100, overscan: 1 });
+  const items = Array.from({ length: count }, (_, index) => `Item ${index}`);
+
+  return (
+    <ul ref={list.listRef} style={list.style}>
+      {items.slice(list.startIndex, list.endIndex).map((item) => (
+        <li key={item}>{item}</li>
+      ))}
+    </ul>
+  );
+};
+
+test('mounts only the rows in view and pads for the rest', () => {
+  render(<VirtualList count={1500} />);
+
+  const rendered = screen.getAllByRole('listitem');
+  // jsdom reports a 768px viewport, so 8 rows of 100px plus one row of overscan.
+  expect(rendered).toHaveLength(9);
+  expect(rendered[0]).toHaveTextContent('Item 0');
+  expect(screen.getByRole('list')).toHaveStyle({ paddingTop: '0px', paddingBottom: `${(1500 - 9) * 100}px` });
+});
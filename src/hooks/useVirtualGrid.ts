@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type CSSProperties } from 'react';
+import { getSessionStorage } from '../utils/storage';
+
+interface VirtualGridOptions {
+  count: number;
+  estimatedRowHeight: number;
+  // Narrowest a column may get before the grid drops one; leave out for a single-column list.
+  minColumnWidth?: number;
+  gap?: number;
+  // Extra rows kept mounted above and below the viewport.
+  overscan?: number;
+  // The first visible item is remembered under this key and scrolled back to when the list is shown again.
+  restoreKey?: string;
+}
+
+type GridLayout = {
+  columns: number;
+  rowHeight: number;
+  startRow: number;
+  endRow: number;
+};
+
+const SCROLL_KEY_PREFIX = 'marvel-explorer:scroll:';
+
+export const readScrollAnchor = (restoreKey: string): number => {
+  try {
+    const index = Number(getSessionStorage()?.getItem(`${SCROLL_KEY_PREFIX}${restoreKey}`));
+    return Number.isInteger(index) && index > 0 ? index : 0;
+  } catch (err) {
+    return 0;
+  }
+};
+
+const writeScrollAnchor = (restoreKey: string, index: number) => {
+  try {
+    getSessionStorage()?.setItem(`${SCROLL_KEY_PREFIX}${restoreKey}`, String(index));
+  } catch (err) {
+    // Without storage the list simply opens at the top next time.
+  }
+};
+
+const sameLayout = (a: GridLayout, b: GridLayout) =>
+  a.columns === b.columns && a.rowHeight === b.rowHeight && a.startRow === b.startRow && a.endRow === b.endRow;
+
+// Window-scrolled virtualization for a CSS grid of equally tall rows. Only the visible rows (plus overscan) are
+// rendered; padding on the list stands in for the rows above and below.
+export const useVirtualGrid = <T extends HTMLElement>({
+  count,
+  estimatedRowHeight,
+  minColumnWidth,
+  gap = 0,
+  overscan = 2,
+  restoreKey,
+}: VirtualGridOptions) => {
+  const listRef = useRef<T | null>(null);
+  const restoredKeyRef = useRef<string | null>(null);
+  const savedIndexRef = useRef(-1);
+  const frameRef = useRef<number | null>(null);
+  const [layout, setLayout] = useState<GridLayout>(() => ({
+    columns: 1,
+    rowHeight: estimatedRowHeight + gap,
+    startRow: 0,
+    endRow: Math.ceil(window.innerHeight / (estimatedRowHeight + gap)) + overscan,
+  }));
+  const layoutRef = useRef(layout);
+
+  const measure = useCallback((): GridLayout => {
+    const list = listRef.current;
+    if (!list) {
+      return layoutRef.current;
+    }
+
+    const columns = minColumnWidth ? Math.max(1, Math.floor((list.clientWidth + gap) / (minColumnWidth + gap))) : 1;
+    const firstItem = list.firstElementChild as HTMLElement | null;
+    const rowHeight = (firstItem?.offsetHeight || estimatedRowHeight) + gap;
+    const top = list.getBoundingClientRect().top;
+    const totalRows = Math.ceil(count / columns);
+    const startRow = Math.min(totalRows, Math.max(0, Math.floor(-top / rowHeight) - overscan));
+    const endRow = Math.min(totalRows, Math.max(startRow, Math.ceil((window.innerHeight - top) / rowHeight) + overscan));
+
+    const next = { columns, rowHeight, startRow, endRow };
+    layoutRef.current = next;
+    setLayout((prev) => (sameLayout(prev, next) ? prev : next));
+
+    if (restoreKey && restoredKeyRef.current === restoreKey && count > 0) {
+      const firstVisible = Math.min(count - 1, Math.max(0, Math.floor(-top / rowHeight)) * columns);
+      if (firstVisible !== savedIndexRef.current) {
+        savedIndexRef.current = firstVisible;
+        writeScrollAnchor(restoreKey, firstVisible);
+      }
+    }
+
+    return next;
+  }, [count, estimatedRowHeight, minColumnWidth, gap, overscan, restoreKey]);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const list = listRef.current;
+      if (!list) {
+        return;
+      }
+
+      const { columns, rowHeight } = measure();
+      const row = Math.floor(Math.min(Math.max(0, index), count - 1) / columns);
+      const top = window.scrollY + list.getBoundingClientRect().top + row * rowHeight;
+      window.scrollTo({ top });
+    },
+    [count, measure]
+  );
+
+  useLayoutEffect(() => {
+    measure();
+  }, [measure]);
+
+  // Restore once per key, as soon as there are items to scroll to.
+  useLayoutEffect(() => {
+    if (!restoreKey || restoredKeyRef.current === restoreKey || count === 0) {
+      return;
+    }
+
+    restoredKeyRef.current = restoreKey;
+    savedIndexRef.current = -1;
+    const anchor = readScrollAnchor(restoreKey);
+    if (anchor > 0) {
+      scrollToIndex(anchor);
+    }
+  }, [restoreKey, count, scrollToIndex]);
+
+  useEffect(() => {
+    const schedule = () => {
+      if (frameRef.current === null) {
+        frameRef.current = window.requestAnimationFrame(() => {
+          frameRef.current = null;
+          measure();
+        });
+      }
+    };
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(schedule);
+    if (observer && listRef.current) {
+      observer.observe(listRef.current);
+    }
+
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      observer?.disconnect();
+      if (frameRef.current !== null) {
+        window.cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [measure]);
+
+  const totalRows = Math.ceil(count / layout.columns);
+  const startRow = Math.min(layout.startRow, totalRows);
+  const endRow = Math.min(Math.max(layout.endRow, startRow), totalRows);
+
+  return {
+    listRef,
+    columns: layout.columns,
+    startIndex: startRow * layout.columns,
+    endIndex: Math.min(count, endRow * layout.columns),
+    scrollToIndex,
+    style: {
+      paddingTop: startRow * layout.rowHeight,
+      paddingBottom: (totalRows - endRow) * layout.rowHeight,
+      gridTemplateColumns: minColumnWidth ? `repeat(${layout.columns}, minmax(0, 1fr))` : undefined,
+    } as CSSProperties,
+  };
+};
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import {
+  NotFoundError,
+  extractIdFromResourceURI,
+  getComicById,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelComic,
+  type MarvelImage,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterImage from '../components/CharacterImage';
+import ResourceList from '../components/ResourceList';
+import StatusBanner from '../components/StatusBanner';
+import './ComicDetailView.css';
+
+type LinkedEntry = {
+  id: number | null;
+  name: string;
+};
+
+type CreatorEntry = {
+  name: string;
+  role: string;
+};
+
+type ComicDetailData = {
+  id: number;
+  title: string;
+  description: string;
+  cover: MarvelImage | null;
+  issueNumber: number;
+  format: string;
+  pageCount: number;
+  seriesName: string;
+  onsaleDate: string | null;
+  prices: string[];
+  creators: CreatorEntry[];
+  characters: LinkedEntry[];
+  variants: LinkedEntry[];
+};
+
+const PRICE_LABELS: Record<string, string> = {
+  printPrice: 'Print',
+  digitalPurchasePrice: 'Digital',
+};
+
+const formatOnsaleDate = (comic: MarvelComic): string | null => {
+  const onsale = comic.dates?.find((entry) => entry.type === 'onsaleDate');
+  if (!onsale) {
+    return null;
+  }
+
+  const parsed = new Date(onsale.date);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toLocaleDateString();
+};
+
+const formatPrices = (comic: MarvelComic): string[] => {
+  return (comic.prices ?? [])
+    .filter((entry) => entry.price > 0)
+    .map((entry) => `${PRICE_LABELS[entry.type] ?? entry.type}: $${entry.price.toFixed(2)}`);
+};
+
+const mapToComicDetail = (comic: MarvelComic): ComicDetailData => {
+  return {
+    id: comic.id,
+    title: comic.title,
+    description: comic.description?.trim() || 'No description available.',
+    cover: comic.thumbnail,
+    issueNumber: comic.issueNumber,
+    format: comic.format || 'Comic',
+    pageCount: comic.pageCount,
+    seriesName: comic.series?.name ?? 'Unknown series',
+    onsaleDate: formatOnsaleDate(comic),
+    prices: formatPrices(comic),
+    creators: (comic.creators?.items ?? []).map((item) => ({
+      name: item.name,
+      role: item.role ?? 'contributor',
+    })),
+    characters: (comic.characters?.items ?? []).map((item) => ({
+      id: extractIdFromResourceURI(item.resourceURI),
+      name: item.name,
+    })),
+    variants: (comic.variants ?? []).map((item) => ({
+      id: extractIdFromResourceURI(item.resourceURI),
+      name: item.name,
+    })),
+  };
+};
+
+const describeBackLink = (from: string | undefined) => {
+  if (from?.startsWith('/detail')) {
+    return 'Back to Character';
+  }
+  if (from?.startsWith('/timeline')) {
+    return 'Back to Timeline';
+  }
+  return 'Back to Comics';
+};
+
+const ComicDetailView: React.FC = () => {
+  const { comicId } = useParams();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
+  const [detail, setDetail] = useState<ComicDetailData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (!comicId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadComic = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getComicById(comicId);
+        if (!data) {
+          throw new NotFoundError(`No comic matches id ${comicId}.`);
+        }
+
+        if (cancelled) {
+          return;
+        }
+
+        setDetail(mapToComicDetail(data));
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+
+        setError(toMarvelApiError(err));
+        setDetail(null);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadComic();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [comicId, reloadToken]);
+
+  const here = `${location.pathname}${location.search}`;
+
+  return (
+    <section className="comic-detail-view">
+      {loading && <StatusBanner tone="loading">Loading comic...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="comic"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+
+      {detail && !loading && (
+        <>
+          <div className="comic-detail-view__hero">
+            <CharacterImage
+              thumbnail={detail.cover}
+              alt={detail.title}
+              sizes="(max-width: 640px) 100vw, 260px"
+              loading="eager"
+            />
+            <div className="comic-detail-view__hero-info">
+              <h2>{detail.title}</h2>
+              <p className="comic-detail-view__meta">
+                Issue #{detail.issueNumber} | {detail.format}
+                {detail.pageCount > 0 ? ` | ${detail.pageCount} pages` : ''}
+              </p>
+              <p className="comic-detail-view__meta">Series: {detail.seriesName}</p>
+              <p className="comic-detail-view__meta">On sale: {detail.onsaleDate ?? 'Unknown'}</p>
+              {detail.prices.length > 0 && (
+                <p className="comic-detail-view__meta">{detail.prices.join(' | ')}</p>
+              )}
+              <p>{detail.description}</p>
+            </div>
+          </div>
+
+          <div className="comic-detail-view__grid">
+            <section>
+              <h3>Characters</h3>
+              <ResourceList
+                emptyText="No characters listed."
+                items={detail.characters.map((character) => ({
+                  key: `${character.id}-${character.name}`,
+                  label: character.name,
+                  to: character.id ? `/detail/${character.id}` : null,
+                  state: { from: here },
+                }))}
+              />
+            </section>
+
+            <section>
+              <h3>Creators</h3>
+              <ResourceList
+                emptyText="No creators listed."
+                items={detail.creators.map((creator) => ({
+                  key: `${creator.name}-${creator.role}`,
+                  label: creator.name,
+                  note: creator.role,
+                }))}
+              />
+            </section>
+
+            <section>
+              <h3>Variants</h3>
+              <ResourceList
+                emptyText="No variants listed."
+                items={detail.variants.map((variant) => ({
+                  key: `${variant.id}-${variant.name}`,
+                  label: variant.name,
+                  to: variant.id ? `/comics/${variant.id}` : null,
+                  state: { from },
+                }))}
+              />
+            </section>
+          </div>
+
+          <div className="comic-detail-view__back">
+            <Link to={from ?? '/comics'}>{describeBackLink(from)}</Link>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ComicDetailView;
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import {
+  getComics,
+  toMarvelApiError,
+  type ComicOrderBy,
+  type ComicSearchParams,
+  type MarvelApiError,
+  type MarvelComic,
+  type MarvelImage,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterImage from '../components/CharacterImage';
+import StatusBanner from '../components/StatusBanner';
+import { useUrlState } from '../hooks/useUrlState';
+import './ComicListView.css';
+
+type ComicSortKey = 'title-asc' | 'title-desc' | 'issue-asc' | 'issue-desc' | 'onsale-desc' | 'onsale-asc';
+
+interface ComicSortOption {
+  label: string;
+  value: ComicSortKey;
+  orderBy: ComicOrderBy;
+}
+
+interface ComicSummary {
+  id: number;
+  title: string;
+  issueNumber: number;
+  format: string;
+  cover: MarvelImage | null;
+  onsaleDate: string | null;
+  creators: number;
+  characters: number;
+}
+
+const API_DEBOUNCE_MS = 300;
+const DISPLAY_LIMIT = 20;
+
+const sortOptions: ComicSortOption[] = [
+  { label: 'Title A → Z', value: 'title-asc', orderBy: 'title' },
+  { label: 'Title Z → A', value: 'title-desc', orderBy: '-title' },
+  { label: 'Newest On Sale', value: 'onsale-desc', orderBy: '-onsaleDate' },
+  { label: 'Oldest On Sale', value: 'onsale-asc', orderBy: 'onsaleDate' },
+  { label: 'Issue # Low → High', value: 'issue-asc', orderBy: 'issueNumber' },
+  { label: 'Issue # High → Low', value: 'issue-desc', orderBy: '-issueNumber' },
+];
+
+const parseSortKey = (value: string | null): ComicSortKey =>
+  sortOptions.find((option) => option.value === value)?.value ?? 'onsale-desc';
+
+const findOnsaleDate = (comic: MarvelComic): string | null => {
+  const onsale = comic.dates?.find((entry) => entry.type === 'onsaleDate');
+  if (!onsale) {
+    return null;
+  }
+
+  const parsed = new Date(onsale.date);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toLocaleDateString();
+};
+
+const summarizeComic = (comic: MarvelComic): ComicSummary => {
+  return {
+    id: comic.id,
+    title: comic.title,
+    issueNumber: comic.issueNumber,
+    format: comic.format || 'Comic',
+    cover: comic.thumbnail,
+    onsaleDate: findOnsaleDate(comic),
+    creators: comic.creators?.available ?? 0,
+    characters: comic.characters?.available ?? 0,
+  };
+};
+
+const ComicListView: React.FC = () => {
+  const location = useLocation();
+  const [searchParams, updateUrl] = useUrlState();
+  const query = searchParams.get('q') ?? '';
+  const sort = parseSortKey(searchParams.get('sort'));
+  const [comics, setComics] = useState<ComicSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const cacheRef = useRef<Map<string, ComicSummary[]>>(new Map());
+
+  const activeSort = useMemo(
+    () => sortOptions.find((option) => option.value === sort) ?? sortOptions[0],
+    [sort]
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const cacheKey = `${trimmed.toLowerCase()}|${activeSort.orderBy}`;
+    const cached = cacheRef.current.get(cacheKey);
+
+    if (cached) {
+      setComics(cached);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const params: ComicSearchParams = {
+          limit: DISPLAY_LIMIT,
+          orderBy: activeSort.orderBy,
+          noVariants: true,
+        };
+
+        if (trimmed) {
+          params.titleStartsWith = trimmed;
+        }
+
+        const data = await getComics(params);
+        if (cancelled) {
+          return;
+        }
+
+        const mapped = data.results.map(summarizeComic);
+        cacheRef.current.set(cacheKey, mapped);
+        setComics(mapped);
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+
+        setError(toMarvelApiError(err));
+        setComics([]);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, API_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [query, activeSort, reloadToken]);
+
+  const showEmpty = !loading && !error && comics.length === 0;
+
+  return (
+    <section className="comic-list-view">
+      <h2 className="comic-list-view__title">Marvel Comic Search</h2>
+      <p className="comic-list-view__hint">Search by the start of a title, then sort by issue or release date.</p>
+
+      <div className="comic-list-view__controls">
+        <input
+          type="search"
+          placeholder="Search for a comic title"
+          value={query}
+          onChange={(event) => updateUrl({ q: event.target.value }, { replace: true })}
+          className="comic-list-view__input"
+          aria-label="Search comics"
+        />
+
+        <select
+          value={sort}
+          onChange={(event) =>
+            updateUrl({ sort: event.target.value === 'onsale-desc' ? null : event.target.value }, { replace: true })
+          }
+          className="comic-list-view__select"
+          aria-label="Sort comics"
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <StatusBanner tone="loading">Loading...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="comics"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+      {showEmpty && <StatusBanner tone="empty">No comics found for that search.</StatusBanner>}
+
+      <ul className="comic-list-view__results">
+        {comics.map((comic) => (
+          <li key={comic.id} className="comic-list-view__item">
+            <Link
+              to={`/comics/${comic.id}`}
+              className="comic-list-view__link"
+              state={{ from: `${location.pathname}${location.search}` }}
+            >
+              <CharacterImage
+                thumbnail={comic.cover}
+                alt={comic.title}
+                sizes="(max-width: 600px) 100vw, 80px"
+                width={80}
+                className="comic-list-view__cover"
+              />
+              <div className="comic-list-view__info">
+                <h3>{comic.title}</h3>
+                <p>
+                  Issue #{comic.issueNumber} | {comic.format}
+                </p>
+                <p>On sale: {comic.onsaleDate ?? 'Unknown'}</p>
+                <p>
+                  Creators: {comic.creators} | Characters: {comic.characters}
+                </p>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default ComicListView;
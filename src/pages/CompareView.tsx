@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  NotFoundError,
+  extractIdFromResourceURI,
+  getCharacterById,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelCharacter,
+  type MarvelResourceSummary,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterImage from '../components/CharacterImage';
+import StatusBanner from '../components/StatusBanner';
+import { MAX_COMPARE, buildCompareLink } from '../context/CompareContext';
+import { parseIds } from '../utils/galleryQuery';
+import { detailPath } from '../utils/neighborContext';
+import './CompareView.css';
+
+type MetricKey = 'comics' | 'series' | 'events' | 'stories';
+
+type SharedKey = 'comics' | 'series' | 'events';
+
+const metrics: { key: MetricKey; label: string }[] = [
+  { key: 'comics', label: 'Comics' },
+  { key: 'series', label: 'Series' },
+  { key: 'events', label: 'Events' },
+  { key: 'stories', label: 'Stories' },
+];
+
+const sharedSections: { key: SharedKey; label: string; route: string }[] = [
+  { key: 'comics', label: 'Shared comics', route: '/comics' },
+  { key: 'series', label: 'Shared series', route: '/series' },
+  { key: 'events', label: 'Shared events', route: '/events' },
+];
+
+// Intersects by resourceURI; the API embeds at most 20 items per list, so this only covers the listed ones.
+const intersectByURI = (lists: MarvelResourceSummary[][]): MarvelResourceSummary[] => {
+  if (lists.length === 0) {
+    return [];
+  }
+
+  const [first, ...rest] = lists;
+  const restSets = rest.map((list) => new Set(list.map((item) => item.resourceURI)));
+  return first.filter((item) => restSets.every((set) => set.has(item.resourceURI)));
+};
+
+const CompareView: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const idsParam = searchParams.get('ids');
+  const ids = useMemo(() => parseIds((idsParam ?? '').split(',')).slice(0, MAX_COMPARE), [idsParam]);
+  const [characters, setCharacters] = useState<MarvelCharacter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (ids.length < 2) {
+      // A load still running for the previous ids is cancelled below, so it won't clear these itself.
+      setCharacters([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadCharacters = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const loaded = await Promise.all(
+          ids.map(async (id) => {
+            const character = await getCharacterById(id);
+            if (!character) {
+              throw new NotFoundError(`No character matches id ${id}.`);
+            }
+            return character;
+          })
+        );
+
+        if (!cancelled) {
+          setCharacters(loaded);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setCharacters([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadCharacters();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ids, reloadToken]);
+
+  const leaders = useMemo(() => {
+    const result = {} as Record<MetricKey, number>;
+    metrics.forEach(({ key }) => {
+      result[key] = Math.max(0, ...characters.map((character) => character[key].available));
+    });
+    return result;
+  }, [characters]);
+
+  const shared = useMemo(() => {
+    const result = {} as Record<SharedKey, MarvelResourceSummary[]>;
+    sharedSections.forEach(({ key }) => {
+      result[key] = intersectByURI(characters.map((character) => character[key].items));
+    });
+    return result;
+  }, [characters]);
+
+  const pairs = useMemo(() => {
+    if (characters.length < 3) {
+      return [];
+    }
+
+    const result: { names: string; comics: number; series: number }[] = [];
+    characters.forEach((left, leftIndex) => {
+      characters.slice(leftIndex + 1).forEach((right) => {
+        result.push({
+          names: `${left.name} & ${right.name}`,
+          comics: intersectByURI([left.comics.items, right.comics.items]).length,
+          series: intersectByURI([left.series.items, right.series.items]).length,
+        });
+      });
+    });
+    return result;
+  }, [characters]);
+
+  const neighbors = characters.map((character) => ({ id: character.id, name: character.name }));
+  const from = buildCompareLink(ids);
+
+  return (
+    <section className="compare-view">
+      <header className="compare-view__header">
+        <h2>Compare Characters</h2>
+        <p>Side-by-side appearance counts and the comics, series and events they share.</p>
+      </header>
+
+      {ids.length < 2 && (
+        <StatusBanner>
+          Pick two or three characters with the Compare checkboxes in the <Link to="/list">list</Link> or{' '}
+          <Link to="/gallery">gallery</Link>.
+        </StatusBanner>
+      )}
+      {loading && <StatusBanner tone="loading">Loading characters...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="character"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+
+      {characters.length >= 2 && !loading && (
+        <>
+          <div className="compare-view__table-wrap">
+            <table className="compare-view__table">
+              <thead>
+                <tr>
+                  <th scope="col">
+                    <span className="compare-view__sr-only">Metric</span>
+                  </th>
+                  {characters.map((character, index) => (
+                    <th key={character.id} scope="col">
+                      <Link
+                        to={detailPath(character.id, from, index)}
+                        state={{ neighbors, from }}
+                        className="compare-view__hero"
+                      >
+                        <CharacterImage thumbnail={character.thumbnail} alt="" shape="standard" width={96} />
+                        <span>{character.name}</span>
+                      </Link>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.map(({ key, label }) => (
+                  <tr key={key}>
+                    <th scope="row">{label}</th>
+                    {characters.map((character) => {
+                      const value = character[key].available;
+                      const difference = value - leaders[key];
+                      const isLeader = difference === 0 && value > 0;
+                      return (
+                        <td key={character.id} className={isLeader ? 'compare-view__leader' : undefined}>
+                          <span className="compare-view__value">{value.toLocaleString()}</span>
+                          {!isLeader && difference !== 0 && (
+                            <span className="compare-view__difference">{difference.toLocaleString()}</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="compare-view__shared">
+            {sharedSections.map(({ key, label, route }) => (
+              <section key={key}>
+                <h3>
+                  {label} <span className="compare-view__count">({shared[key].length})</span>
+                </h3>
+                {shared[key].length > 0 ? (
+                  <ul>
+                    {shared[key].map((item) => {
+                      const itemId = extractIdFromResourceURI(item.resourceURI);
+                      return (
+                        <li key={item.resourceURI}>
+                          {itemId ? (
+                            <Link to={`${route}/${itemId}`} state={{ from }}>
+                              {item.name}
+                            </Link>
+                          ) : (
+                            item.name
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  <p>Nothing in common among the listed {key}.</p>
+                )}
+              </section>
+            ))}
+          </div>
+
+          {pairs.length > 0 && (
+            <section className="compare-view__pairs">
+              <h3>Pairwise overlap</h3>
+              <ul>
+                {pairs.map((pair) => (
+                  <li key={pair.names}>
+                    {pair.names}: {pair.comics} comics, {pair.series} series
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <p className="compare-view__note">
+            Shared items are worked out from the appearance lists the API embeds, which hold up to 20 entries each.
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CompareView;
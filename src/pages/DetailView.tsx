@@ -1,62 +1,92 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import {
+  NotFoundError,
   getCharacterById,
-  getCharacters,
+  toMarvelApiError,
+  type MarvelApiError,
   type MarvelCharacter,
+  type MarvelImage,
+  type MarvelUrl,
 } from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterImage from '../components/CharacterImage';
+import ExportMenu from '../components/ExportMenu';
+import FavoriteButton from '../components/FavoriteButton';
+import RelationshipTabs, { type RelationKey, type RelationSummary } from '../components/RelationshipTabs';
+import StatusBanner from '../components/StatusBanner';
+import { useRosters } from '../context/RostersContext';
+import { useNeighbors, type NeighborRef } from '../hooks/useNeighbors';
+import { useShortcut } from '../hooks/useShortcut';
+import { useUrlState } from '../hooks/useUrlState';
+import { buildImageUrl } from '../utils/marvelImages';
+import { detailPath } from '../utils/neighborContext';
 import './DetailView.css';
 
-type CharacterSummary = {
-  id: number;
-  name: string;
-};
-
 interface DetailLocationState {
-  neighbors?: CharacterSummary[];
+  neighbors?: NeighborRef[];
+  from?: string;
 }
 
 type DetailData = {
   id: number;
   name: string;
   description: string;
-  thumbnailUrl: string;
-  comics: string[];
+  thumbnail: MarvelImage | null;
+  relations: Record<RelationKey, RelationSummary>;
   series: string[];
-  events: string[];
-  stories: string[];
+  urls: MarvelUrl[];
 };
 
-const DEFAULT_POSTER =
-  'https://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available/portrait_uncanny.jpg';
-
-const ensureHttps = (url: string) => (url.startsWith('http://') ? url.replace('http://', 'https://') : url);
-
-const buildHeroImage = (thumbnail: MarvelCharacter['thumbnail'] | null): string => {
-  if (!thumbnail?.path || thumbnail.path.includes('image_not_available')) {
-    return DEFAULT_POSTER;
-  }
-
-  return `${ensureHttps(thumbnail.path)}/landscape_incredible.${thumbnail.extension}`;
+const BACK_LABELS: { prefix: string; label: string }[] = [
+  { prefix: '/list', label: 'Back to Search' },
+  { prefix: '/gallery', label: 'Back to Gallery' },
+  { prefix: '/comics/', label: 'Back to Comic' },
+  { prefix: '/comics', label: 'Back to Comics' },
+  { prefix: '/teams', label: 'Back to Teams' },
+  { prefix: '/compare', label: 'Back to Comparison' },
+  { prefix: '/graph', label: 'Back to Graph' },
+  { prefix: '/timeline', label: 'Back to Timeline' },
+  { prefix: '/series', label: 'Back to Series' },
+  { prefix: '/events', label: 'Back to Event' },
+  { prefix: '/stories', label: 'Back to Story' },
+  { prefix: '/import', label: 'Back to Import' },
+  { prefix: '/stats', label: 'Back to Stats' },
+  { prefix: '/settings', label: 'Back to Settings' },
+  // The command palette can jump between characters.
+  { prefix: '/detail/', label: 'Back to Character' },
+];
+
+// `from` can arrive in the query string, so only paths to one of these pages are followed; anything else, such as
+// another site's URL, is ignored.
+const toSafeFrom = (value: string | null | undefined): string | null =>
+  value && BACK_LABELS.some((entry) => value.startsWith(entry.prefix)) ? value : null;
+
+const describeBackLink = (from: string | null) => {
+  const target = from ?? '/gallery';
+  const match = BACK_LABELS.find((entry) => target.startsWith(entry.prefix));
+  return { to: target, label: match?.label ?? 'Back' };
 };
 
-const extractNames = (summary: { items: { name: string }[] }, limit = 6) => {
-  return summary.items
-    .map((item) => item.name)
-    .filter(Boolean)
-    .slice(0, limit);
-};
+const toRelation = ({ available, collectionURI }: MarvelCharacter[RelationKey]): RelationSummary => ({
+  available,
+  collectionURI,
+});
 
 const mapToDetail = (character: MarvelCharacter): DetailData => {
   return {
     id: character.id,
     name: character.name,
     description: character.description?.trim() || 'No description available.',
-    thumbnailUrl: buildHeroImage(character.thumbnail),
-    comics: extractNames(character.comics),
-    series: extractNames(character.series),
-    events: extractNames(character.events, 4),
-    stories: extractNames(character.stories, 4),
+    thumbnail: character.thumbnail,
+    relations: {
+      comics: toRelation(character.comics),
+      series: toRelation(character.series),
+      events: toRelation(character.events),
+      stories: toRelation(character.stories),
+    },
+    series: character.series.items.map((item) => item.name).filter(Boolean),
+    urls: character.urls ?? [],
   };
 };
 
@@ -64,22 +94,13 @@ const DetailView: React.FC = () => {
   const { characterId } = useParams();
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams] = useUrlState();
+  const { teams, addToTeam } = useRosters();
   const locationState = (location.state as DetailLocationState | null) ?? null;
   const [detail, setDetail] = useState<DetailData | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [neighbors, setNeighbors] = useState<CharacterSummary[]>(() => {
-    if (locationState?.neighbors) {
-      return [...locationState.neighbors];
-    }
-    return [];
-  });
-
-  useEffect(() => {
-    if (locationState?.neighbors) {
-      setNeighbors([...locationState.neighbors]);
-    }
-  }, [locationState]);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
 
   useEffect(() => {
     if (!characterId) {
@@ -95,7 +116,7 @@ const DetailView: React.FC = () => {
       try {
         const data = await getCharacterById(characterId);
         if (!data) {
-          throw new Error('Character not found');
+          throw new NotFoundError(`No character matches id ${characterId}.`);
         }
 
         if (cancelled) {
@@ -108,7 +129,7 @@ const DetailView: React.FC = () => {
           return;
         }
 
-        setError('Could not load character details.');
+        setError(toMarvelApiError(err));
         setDetail(null);
       } finally {
         if (!cancelled) {
@@ -122,152 +143,146 @@ const DetailView: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [characterId]);
+  }, [characterId, reloadToken]);
 
-  useEffect(() => {
-    if (!detail) {
-      return;
-    }
+  const numericId = useMemo(() => Number(characterId), [characterId]);
+  // The URL copy survives a reload; location state only covers links that don't set one.
+  const from = toSafeFrom(searchParams.get('from')) ?? toSafeFrom(locationState?.from);
+  const atParam = searchParams.get('at');
+  const stateNeighbors = locationState?.neighbors ?? null;
+  const neighbors = useNeighbors({
+    characterId: numericId,
+    name: detail?.id === numericId ? detail.name : null,
+    from,
+    at: atParam !== null && Number.isInteger(Number(atParam)) ? Number(atParam) : null,
+    stateNeighbors,
+  });
+  const previousCharacter = neighbors.previous;
+  const nextCharacter = neighbors.next;
+
+  const backLink = describeBackLink(from);
 
-    const hasCurrent = neighbors.some((item) => item.id === detail.id);
-    if (hasCurrent) {
+  const handleNavigate = (target: NeighborRef | null, step: number) => {
+    if (!target) {
       return;
     }
+    const at = neighbors.index !== null ? neighbors.index + step : undefined;
+    navigate(from ? detailPath(target.id, from, at) : `/detail/${target.id}`, {
+      state: { neighbors: stateNeighbors ?? undefined, from: from ?? undefined },
+    });
+  };
 
-    let cancelled = false;
-
-    const loadNeighbors = async () => {
-      try {
-        const prefix = detail.name.trim().slice(0, 1) || 'A';
-        const data = await getCharacters({ limit: 100, nameStartsWith: prefix, orderBy: 'name' });
-        if (cancelled) {
-          return;
-        }
-
-        const named = data.results
-          .map((character) => ({ id: character.id, name: character.name }))
-          .sort((a, b) => a.name.localeCompare(b.name));
-
-        const ensuresCurrent = named.some((item) => item.id === detail.id)
-          ? named
-          : [...named, { id: detail.id, name: detail.name }].sort((a, b) => a.name.localeCompare(b.name));
-
-        setNeighbors(ensuresCurrent);
-      } catch (err) {
-        if (!cancelled) {
-          setNeighbors([{ id: detail.id, name: detail.name }]);
-        }
-      }
-    };
-
-    loadNeighbors();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [detail, neighbors]);
-
-  const numericId = useMemo(() => Number(characterId), [characterId]);
-  const currentIndex = neighbors.findIndex((item) => item.id === numericId);
-  const previousCharacter = currentIndex > 0 ? neighbors[currentIndex - 1] : null;
-  const nextCharacter = currentIndex >= 0 && currentIndex < neighbors.length - 1 ? neighbors[currentIndex + 1] : null;
+  useShortcut(['ArrowLeft', 'k'], () => handleNavigate(previousCharacter, -1), { enabled: Boolean(detail) });
+  useShortcut(['ArrowRight', 'j'], () => handleNavigate(nextCharacter, 1), { enabled: Boolean(detail) });
 
-  const handleNavigate = (id?: number) => {
-    if (id) {
-      navigate(`/detail/${id}`, { state: { neighbors } });
-    }
-  };
+  const characterRef = detail
+    ? { id: detail.id, name: detail.name, thumbnailUrl: buildImageUrl(detail.thumbnail, 'standard') }
+    : null;
 
   return (
     <section className="detail-view">
-      {loading && <div className="detail-view__status">Loading character...</div>}
-      {error && <div className="detail-view__status detail-view__status--error">{error}</div>}
+      {loading && <StatusBanner tone="loading">Loading character...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="character"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
 
-      {detail && !loading && (
+      {detail && characterRef && !loading && (
         <>
           <div className="detail-view__hero">
-            <img src={detail.thumbnailUrl} alt={detail.name} />
+            <CharacterImage
+              thumbnail={detail.thumbnail}
+              alt={detail.name}
+              shape="landscape"
+              sizes="(max-width: 640px) 100vw, 464px"
+              loading="eager"
+            />
             <div className="detail-view__hero-info">
-              <h2>{detail.name}</h2>
+              <div className="detail-view__title-row">
+                <h2>{detail.name}</h2>
+                <FavoriteButton character={characterRef} />
+              </div>
               <p>{detail.description}</p>
-            </div>
-          </div>
-
-          <div className="detail-view__grid">
-            <section>
-              <h3>Comics</h3>
-              {detail.comics.length > 0 ? (
-                <ul>
-                  {detail.comics.map((title) => (
-                    <li key={title}>{title}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p>No comics listed.</p>
-              )}
-            </section>
-
-            <section>
-              <h3>Series</h3>
-              {detail.series.length > 0 ? (
-                <ul>
-                  {detail.series.map((title) => (
-                    <li key={title}>{title}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p>No series listed.</p>
-              )}
-            </section>
-
-            <section>
-              <h3>Events</h3>
-              {detail.events.length > 0 ? (
-                <ul>
-                  {detail.events.map((title) => (
-                    <li key={title}>{title}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p>No events listed.</p>
-              )}
-            </section>
-
-            <section>
-              <h3>Stories</h3>
-              {detail.stories.length > 0 ? (
-                <ul>
-                  {detail.stories.map((title) => (
-                    <li key={title}>{title}</li>
-                  ))}
-                </ul>
+              {teams.length > 0 ? (
+                <select
+                  className="detail-view__team-select"
+                  value=""
+                  aria-label="Add to team"
+                  onChange={(event) =>
+                    addToTeam(event.target.value, characterRef)
+                  }
+                >
+                  <option value="">Add to team…</option>
+                  {teams.map((team) => {
+                    const isMember = team.members.some((member) => member.id === detail.id);
+                    return (
+                      <option key={team.id} value={team.id} disabled={isMember}>
+                        {team.name}
+                        {isMember ? ' (already added)' : ''}
+                      </option>
+                    );
+                  })}
+                </select>
               ) : (
-                <p>No stories listed.</p>
+                <Link to="/teams" className="detail-view__team-link">
+                  Create a team to save this character to a roster
+                </Link>
               )}
-            </section>
+              <Link to={`/graph/${detail.id}`} className="detail-view__graph-link">
+                Explore relationship graph
+              </Link>
+              <Link to={`/timeline/${detail.id}`} className="detail-view__graph-link">
+                View appearance timeline
+              </Link>
+              <ExportMenu
+                characters={[
+                  {
+                    id: detail.id,
+                    name: detail.name,
+                    comics: detail.relations.comics.available,
+                    events: detail.relations.events.available,
+                    series: detail.series,
+                    thumbnailUrl: buildImageUrl(detail.thumbnail, 'portrait'),
+                    urls: detail.urls,
+                  },
+                ]}
+                title={detail.name}
+              />
+            </div>
           </div>
 
-          <div className="detail-view__nav">
+          <RelationshipTabs relations={detail.relations} />
+
+          <nav className="detail-view__nav" aria-label="Neighboring characters">
             <button
               type="button"
               className="detail-view__nav-button"
-              onClick={() => handleNavigate(previousCharacter?.id)}
+              onClick={() => handleNavigate(previousCharacter, -1)}
               disabled={!previousCharacter}
             >
               Previous
             </button>
+            {neighbors.index !== null && neighbors.total !== null && neighbors.total > 1 && (
+              <p className="detail-view__position">
+                {(neighbors.index + 1).toLocaleString()} of {neighbors.total.toLocaleString()}
+                {neighbors.label ? ` ${neighbors.label}` : ''}
+              </p>
+            )}
             <button
               type="button"
               className="detail-view__nav-button"
-              onClick={() => handleNavigate(nextCharacter?.id)}
+              onClick={() => handleNavigate(nextCharacter, 1)}
               disabled={!nextCharacter}
             >
               Next
             </button>
-          </div>
+          </nav>
 
           <div className="detail-view__back">
-            <Link to="/gallery">Back to Gallery</Link>
+            <Link to={backLink.to}>{backLink.label}</Link>
           </div>
         </>
       )}
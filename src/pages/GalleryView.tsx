@@ -1,167 +1,399 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import {
+  getAllCharacters,
+  getCharacterById,
   getCharacters,
+  getComicById,
+  getEventById,
+  getSeriesById,
+  getStoryById,
+  toMarvelApiError,
+  type MarvelApiError,
   type MarvelCharacter,
+  type MarvelImage,
+  type MarvelUrl,
 } from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterCard from '../components/CharacterCard';
+import ExportMenu from '../components/ExportMenu';
+import ResourcePicker, { pickedKey, pickerKinds, type PickedResource, type PickerKind } from '../components/ResourcePicker';
+import StatusBanner from '../components/StatusBanner';
+import { useActivitySettings } from '../context/ActivitySettingsContext';
+import { useRovingFocus } from '../hooks/useRovingFocus';
+import { useUrlState } from '../hooks/useUrlState';
+import { readScrollAnchor, useVirtualGrid } from '../hooks/useVirtualGrid';
+import { describeTier, type ActivityCounts, type ActivityTier } from '../utils/activity';
+import { getIndexedCharacters, toIndexedCharacter, type IndexedCharacter } from '../utils/characterIndex';
+import { modifiedTime } from '../utils/characterStats';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  GALLERY_ID_LIMIT,
+  INDEX_FILTER_PARAMS,
+  buildGalleryQueries,
+  describeIndexFilter,
+  filterIndexedCharacters,
+  parseIds,
+  readGallerySelection,
+  readIndexFilter,
+  type MatchMode,
+} from '../utils/galleryQuery';
+import { buildImageUrl } from '../utils/marvelImages';
+import { detailPath } from '../utils/neighborContext';
 import './GalleryView.css';
 
-type ActivityLevel = 'legend' | 'veteran' | 'rookie';
-
 type GalleryCharacter = {
   id: number;
   name: string;
-  thumbnailUrl: string;
+  thumbnail: MarvelImage | null;
   comics: number;
   events: number;
-  activity: ActivityLevel;
+  tierId: string | null;
+  tier: string | null;
   series: string[];
+  urls: MarvelUrl[];
 };
 
-const DEFAULT_POSTER =
-  'https://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available/portrait_uncanny.jpg';
-
-const activityFilters: { label: string; value: ActivityLevel }[] = [
-  { label: 'Legends (1000+ comics)', value: 'legend' },
-  { label: 'Veterans (200-999)', value: 'veteran' },
-  { label: 'Rising Heroes (<200)', value: 'rookie' },
-];
-
-const ensureHttps = (url: string) => (url.startsWith('http://') ? url.replace('http://', 'https://') : url);
-
-const buildThumbnailUrl = (thumbnail: MarvelCharacter['thumbnail'] | null): string => {
-  if (!thumbnail?.path || thumbnail.path.includes('image_not_available')) {
-    return DEFAULT_POSTER;
-  }
+const PAGE_SIZE = 40;
+const API_PAGE_LIMIT = 100;
+const COMBINED_LIMIT = 500;
+const IMPORT_CONCURRENCY = 4;
+const CLEARED_INDEX_PARAMS = Object.fromEntries(INDEX_FILTER_PARAMS.map((name) => [name, null]));
 
-  return `${ensureHttps(thumbnail.path)}/standard_fantastic.${thumbnail.extension}`;
+const mapToGalleryCharacter = (
+  character: IndexedCharacter,
+  classify: (counts: ActivityCounts) => ActivityTier | null
+): GalleryCharacter => {
+  const tier = classify(character);
+  return {
+    id: character.id,
+    name: character.name,
+    thumbnail: character.thumbnail,
+    comics: character.comics,
+    events: character.events,
+    tierId: tier?.id ?? null,
+    tier: tier?.name ?? null,
+    series: character.seriesRefs.map((ref) => ref.name),
+    urls: character.urls,
+  };
 };
 
-const classifyActivity = (comicCount: number): ActivityLevel => {
-  if (comicCount >= 1000) {
-    return 'legend';
+const toggleValue = <T extends string>(selected: Set<T>, value: T): T[] => {
+  const next = new Set(selected);
+  if (next.has(value)) {
+    next.delete(value);
+  } else {
+    next.add(value);
   }
+  return Array.from(next);
+};
 
-  if (comicCount >= 200) {
-    return 'veteran';
-  }
+// Imported sets can include ids that no longer exist; those are dropped rather than failing the whole gallery.
+const loadImportedCharacters = async (ids: number[]): Promise<MarvelCharacter[]> => {
+  const loaded = await mapWithConcurrency(ids, IMPORT_CONCURRENCY, async (id) => {
+    try {
+      return await getCharacterById(id);
+    } catch (err) {
+      if (toMarvelApiError(err).kind === 'not-found') {
+        return null;
+      }
+      throw err;
+    }
+  });
 
-  return 'rookie';
+  return loaded.filter((character): character is MarvelCharacter => character !== null);
 };
 
-const pickSeries = (character: MarvelCharacter): string[] => {
-  return character.series.items
-    .map((item) => item.name)
-    .filter(Boolean)
-    .slice(0, 5);
+const kindLabel = (kind: PickerKind) => pickerKinds.find((option) => option.value === kind)?.label ?? kind;
+
+const lookupResourceTitle = async (kind: PickerKind, id: number): Promise<string | null> => {
+  const lookup = { series: getSeriesById, events: getEventById, comics: getComicById, stories: getStoryById }[kind];
+  const resource = await lookup(id);
+  return resource?.title ?? null;
 };
 
-const mapToGalleryCharacter = (character: MarvelCharacter): GalleryCharacter => {
-  const comics = character.comics.available;
-  return {
-    id: character.id,
-    name: character.name,
-    thumbnailUrl: buildThumbnailUrl(character.thumbnail),
-    comics,
-    events: character.events.available,
-    activity: classifyActivity(comics),
-    series: pickSeries(character),
-  };
+const combineResults = (lists: MarvelCharacter[][], mode: MatchMode): MarvelCharacter[] => {
+  if (mode === 'all') {
+    const [first = [], ...rest] = lists;
+    const restIds = rest.map((list) => new Set(list.map((character) => character.id)));
+    return first.filter((character) => restIds.every((ids) => ids.has(character.id)));
+  }
+
+  const byId = new Map<number, MarvelCharacter>();
+  lists.forEach((list) => list.forEach((character) => byId.set(character.id, character)));
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(b.modified).getTime() - new Date(a.modified).getTime()
+  );
 };
 
 const GalleryView: React.FC = () => {
-  const [characters, setCharacters] = useState<GalleryCharacter[]>([]);
-  const [selectedActivity, setSelectedActivity] = useState<Set<ActivityLevel>>(new Set());
-  const [selectedSeries, setSelectedSeries] = useState<Set<string>>(new Set());
-  const [seriesFilters, setSeriesFilters] = useState<string[]>([]);
+  const [characters, setCharacters] = useState<IndexedCharacter[]>([]);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const location = useLocation();
+  const [searchParams, updateUrl] = useUrlState();
+  const { tiers, classify } = useActivitySettings();
+  const activityParam = searchParams.getAll('activity').join(',');
+  const selectionParam = new URLSearchParams(
+    pickerKinds.flatMap(({ value }) => searchParams.getAll(value).map((ids) => [value, ids]))
+  ).toString();
+  const mode: MatchMode = searchParams.get('mode') === 'all' ? 'all' : 'any';
+  const since = searchParams.get('since') ?? '';
+  const idsParam = searchParams.get('ids') ?? '';
+  const indexParam = new URLSearchParams(
+    INDEX_FILTER_PARAMS.flatMap((name) => searchParams.getAll(name).map((value) => [name, value]))
+  ).toString();
+  const [labels, setLabels] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const combinedRef = useRef<IndexedCharacter[] | null>(null);
+  const requestRef = useRef(0);
+  const restoreKey = `${location.pathname}${location.search}`;
+  const restoreKeyRef = useRef(restoreKey);
+  restoreKeyRef.current = restoreKey;
+
+  const selection = useMemo(() => readGallerySelection(new URLSearchParams(selectionParam)), [selectionParam]);
+
+  const selectedItems = useMemo(
+    () => pickerKinds.flatMap(({ value }) => selection[value].map((id) => ({ kind: value, id }))),
+    [selection]
+  );
+
+  const queries = useMemo(() => buildGalleryQueries(selection, mode, since), [selection, mode, since]);
+
+  const importedIds = useMemo(() => parseIds(idsParam.split(',')).slice(0, GALLERY_ID_LIMIT), [idsParam]);
+
+  const indexFilter = useMemo(() => readIndexFilter(new URLSearchParams(indexParam)), [indexParam]);
 
   useEffect(() => {
+    requestRef.current += 1;
+    let cancelled = false;
+
+    // Coming back from a character page, load far enough to reach the card that was last on screen.
+    const initialSize = Math.max(PAGE_SIZE, readScrollAnchor(restoreKeyRef.current) + PAGE_SIZE);
+
     const load = async () => {
       setLoading(true);
+      setLoadingMore(false);
       setError(null);
+      combinedRef.current = null;
 
       try {
-        const data = await getCharacters({ limit: 100, orderBy: '-modified' });
-        const mapped = data.results.map(mapToGalleryCharacter);
-
-        const frequency = new Map<string, number>();
-        mapped.forEach((hero) => {
-          hero.series.forEach((seriesName) => {
-            frequency.set(seriesName, (frequency.get(seriesName) ?? 0) + 1);
-          });
-        });
-
-        const sortedSeries = Array.from(frequency.entries())
-          .filter(([, count]) => count >= 2)
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 8)
-          .map(([name]) => name);
-
-        setCharacters(mapped);
-        setSeriesFilters(sortedSeries);
+        if (indexFilter) {
+          // Everything is already in the browser, so the whole match is shown and activity chips filter all of it.
+          const matches = filterIndexedCharacters(getIndexedCharacters(), indexFilter).sort(
+            (a, b) => modifiedTime(b) - modifiedTime(a)
+          );
+          setCharacters(matches);
+          setTotal(matches.length);
+          setTruncated(false);
+        } else if (importedIds.length > 0) {
+          const imported = (await loadImportedCharacters(importedIds)).map(toIndexedCharacter);
+          if (cancelled) {
+            return;
+          }
+
+          combinedRef.current = imported;
+          setCharacters(imported.slice(0, initialSize));
+          setTotal(imported.length);
+          setTruncated(false);
+        } else if (queries.length === 1) {
+          const data =
+            initialSize > API_PAGE_LIMIT
+              ? await getAllCharacters(queries[0], { max: initialSize })
+              : await getCharacters({ ...queries[0], limit: initialSize });
+          if (cancelled) {
+            return;
+          }
+
+          setCharacters(data.results.slice(0, initialSize).map(toIndexedCharacter));
+          setTotal(data.total);
+          setTruncated(false);
+        } else {
+          const pages = await Promise.all(queries.map((query) => getAllCharacters(query, { max: COMBINED_LIMIT })));
+          if (cancelled) {
+            return;
+          }
+
+          const combined = combineResults(
+            pages.map((page) => page.results),
+            mode
+          ).map(toIndexedCharacter);
+          combinedRef.current = combined;
+          setCharacters(combined.slice(0, initialSize));
+          setTotal(combined.length);
+          setTruncated(pages.some((page) => page.count < page.total));
+        }
       } catch (err) {
-        setError('Unable to load gallery right now.');
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setCharacters([]);
+          setTotal(0);
+        }
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setLoading(false);
+        }
       }
     };
 
     load();
-  }, []);
-
-  const toggleActivity = (value: ActivityLevel) => {
-    setSelectedActivity((prev) => {
-      const next = new Set(prev);
-      if (next.has(value)) {
-        next.delete(value);
-      } else {
-        next.add(value);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [indexFilter, importedIds, queries, mode, reloadToken]);
+
+  useEffect(() => {
+    const missing = selectedItems.filter(({ kind, id }) => !labels[pickedKey(kind, id)]);
+    if (missing.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all(
+      missing.map(async ({ kind, id }) => {
+        const key = pickedKey(kind, id);
+        try {
+          return [key, (await lookupResourceTitle(kind, id)) ?? `${kindLabel(kind)} #${id}`] as const;
+        } catch (err) {
+          return [key, `${kindLabel(kind)} #${id}`] as const;
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) {
+        setLabels((prev) => entries.reduce((next, [key, label]) => ({ ...next, [key]: label }), prev));
       }
-      return next;
     });
-  };
 
-  const toggleSeries = (seriesName: string) => {
-    setSelectedSeries((prev) => {
-      const next = new Set(prev);
-      if (next.has(seriesName)) {
-        next.delete(seriesName);
-      } else {
-        next.add(seriesName);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedItems, labels]);
+
+  const loadMore = useCallback(async () => {
+    if (combinedRef.current) {
+      setCharacters(combinedRef.current.slice(0, characters.length + PAGE_SIZE));
+      return;
+    }
+
+    const requestId = requestRef.current;
+    setLoadingMore(true);
+
+    try {
+      const data = await getCharacters({ ...queries[0], limit: PAGE_SIZE, offset: characters.length });
+      if (requestId !== requestRef.current) {
+        return;
       }
-      return next;
-    });
+
+      setCharacters((prev) => {
+        const known = new Set(prev.map((character) => character.id));
+        return [...prev, ...data.results.filter((character) => !known.has(character.id)).map(toIndexedCharacter)];
+      });
+      setTotal(data.total);
+    } catch (err) {
+      if (requestId === requestRef.current) {
+        setError(toMarvelApiError(err));
+      }
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [characters.length, queries]);
+
+  const selectedActivity = useMemo(
+    () =>
+      new Set(
+        activityParam
+          .split(',')
+          .filter((value) => tiers.some((tier) => tier.id === value))
+      ),
+    [activityParam, tiers]
+  );
+
+  const selectedKeys = useMemo(
+    () => new Set(selectedItems.map(({ kind, id }) => pickedKey(kind, id))),
+    [selectedItems]
+  );
+
+  const toggleActivity = (value: string) => {
+    updateUrl({ activity: toggleValue(selectedActivity, value) }, { replace: true });
+  };
+
+  const addPick = (item: PickedResource) => {
+    setLabels((prev) => ({ ...prev, [pickedKey(item.kind, item.id)]: item.name }));
+    updateUrl({ [item.kind]: [...selection[item.kind], item.id].map(String) }, { replace: true });
+  };
+
+  const removePick = (kind: PickerKind, id: number) => {
+    updateUrl({ [kind]: selection[kind].filter((value) => value !== id).map(String) }, { replace: true });
   };
 
   const clearFilters = () => {
-    setSelectedActivity(new Set());
-    setSelectedSeries(new Set());
+    updateUrl(
+      {
+        activity: null,
+        series: null,
+        events: null,
+        comics: null,
+        stories: null,
+        mode: null,
+        since: null,
+        ids: null,
+        ...CLEARED_INDEX_PARAMS,
+      },
+      { replace: true }
+    );
   };
 
   const filteredCharacters = useMemo(() => {
-    return characters.filter((character) => {
-      const activityOk =
-        selectedActivity.size === 0 || selectedActivity.has(character.activity);
-      const seriesOk =
-        selectedSeries.size === 0 || character.series.some((seriesName) => selectedSeries.has(seriesName));
-
-      return activityOk && seriesOk;
-    });
-  }, [characters, selectedActivity, selectedSeries]);
+    return characters
+      .map((character) => mapToGalleryCharacter(character, classify))
+      .filter((character) => {
+        return selectedActivity.size === 0 || (character.tierId !== null && selectedActivity.has(character.tierId));
+      });
+  }, [characters, selectedActivity, classify]);
 
   const neighborList = useMemo(
     () => filteredCharacters.map((character) => ({ id: character.id, name: character.name })),
     [filteredCharacters]
   );
 
+  const exportable = useMemo(
+    () =>
+      filteredCharacters.map((character) => ({
+        ...character,
+        thumbnailUrl: buildImageUrl(character.thumbnail, 'portrait'),
+      })),
+    [filteredCharacters]
+  );
+
+  const grid = useVirtualGrid<HTMLUListElement>({
+    count: filteredCharacters.length,
+    estimatedRowHeight: 380,
+    minColumnWidth: 220,
+    gap: 16,
+    restoreKey,
+  });
+
+  const roving = useRovingFocus<HTMLAnchorElement>(filteredCharacters.length, {
+    columns: grid.columns,
+    scrollToIndex: grid.scrollToIndex,
+    renderedRange: { start: grid.startIndex, end: grid.endIndex },
+  });
+
+  const hasMore = characters.length < total;
+
   return (
     <section className="gallery-view">
       <header className="gallery-view__header">
         <div>
           <h2>Character Gallery</h2>
-          <p>Flip through recent Marvel characters and filter by activity or series ties.</p>
+          <p>Browse recently updated characters, or narrow them to the series, events, comics and stories they appear in.</p>
         </div>
         <button type="button" className="gallery-view__reset" onClick={clearFilters}>
           Clear filters
@@ -169,78 +401,138 @@ const GalleryView: React.FC = () => {
       </header>
 
       <div className="gallery-view__filters">
+        {indexFilter || importedIds.length > 0 ? (
+          <div className="gallery-view__filter-group">
+            <span className="gallery-view__filter-label">{indexFilter ? 'Loaded characters' : 'Imported set'}</span>
+            <p className="gallery-view__summary">
+              {indexFilter
+                ? `Showing the ${filteredCharacters.length.toLocaleString()} characters loaded in this browser` +
+                  `${describeIndexFilter(indexFilter)}.`
+                : `Showing the ${importedIds.length.toLocaleString()} characters from your import.`}{' '}
+              <button
+                type="button"
+                className="gallery-view__reset"
+                onClick={() => updateUrl(indexFilter ? CLEARED_INDEX_PARAMS : { ids: null })}
+              >
+                Browse all characters
+              </button>
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="gallery-view__filter-group">
+              <span className="gallery-view__filter-label">Appears in</span>
+              <ResourcePicker onPick={addPick} excluded={selectedKeys} />
+              {selectedItems.length > 0 && (
+                <div className="gallery-view__filter-options">
+                  {selectedItems.map(({ kind, id }) => (
+                    <button
+                      key={pickedKey(kind, id)}
+                      type="button"
+                      className="gallery-view__chip gallery-view__chip--active"
+                      aria-label={`Remove ${labels[pickedKey(kind, id)] ?? `${kindLabel(kind)} #${id}`} filter`}
+                      onClick={() => removePick(kind, id)}
+                    >
+                      <span className="gallery-view__chip-kind">{kindLabel(kind)}</span>{' '}
+                      {labels[pickedKey(kind, id)] ?? `#${id}`} ×
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedItems.length > 1 && (
+                <div className="gallery-view__filter-options" role="group" aria-label="Match mode">
+                  {(['any', 'all'] as MatchMode[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      className={`gallery-view__chip${mode === value ? ' gallery-view__chip--active' : ''}`}
+                      aria-pressed={mode === value}
+                      onClick={() => updateUrl({ mode: value === 'all' ? 'all' : null }, { replace: true })}
+                    >
+                      {value === 'any' ? 'Match any (OR)' : 'Match all (AND)'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="gallery-view__filter-group">
+              <label className="gallery-view__filter-label" htmlFor="gallery-since">
+                Modified since
+              </label>
+              <input
+                id="gallery-since"
+                type="date"
+                className="gallery-view__date"
+                value={since}
+                onChange={(event) => updateUrl({ since: event.target.value }, { replace: true })}
+              />
+            </div>
+          </>
+        )}
+
         <div className="gallery-view__filter-group">
           <span className="gallery-view__filter-label">Activity</span>
           <div className="gallery-view__filter-options">
-            {activityFilters.map((option) => {
-              const isActive = selectedActivity.has(option.value);
+            {tiers.map((tier) => {
+              const isActive = selectedActivity.has(tier.id);
               return (
                 <button
-                  key={option.value}
+                  key={tier.id}
                   type="button"
                   className={`gallery-view__chip${isActive ? ' gallery-view__chip--active' : ''}`}
-                  onClick={() => toggleActivity(option.value)}
+                  onClick={() => toggleActivity(tier.id)}
                 >
-                  {option.label}
+                  {describeTier(tier)}
                 </button>
               );
             })}
+            <Link to="/settings" className="gallery-view__settings-link">
+              Edit tiers
+            </Link>
           </div>
         </div>
-
-        {seriesFilters.length > 0 && (
-          <div className="gallery-view__filter-group">
-            <span className="gallery-view__filter-label">Popular Series</span>
-            <div className="gallery-view__filter-options">
-              {seriesFilters.map((seriesName) => {
-                const isActive = selectedSeries.has(seriesName);
-                return (
-                  <button
-                    key={seriesName}
-                    type="button"
-                    className={`gallery-view__chip${isActive ? ' gallery-view__chip--active' : ''}`}
-                    onClick={() => toggleSeries(seriesName)}
-                  >
-                    {seriesName}
-                  </button>
-                );
-              })}
-            </div>
-          </div>
-        )}
       </div>
 
-      {loading && <div className="gallery-view__status">Loading gallery...</div>}
-      {error && <div className="gallery-view__status gallery-view__status--error">{error}</div>}
+      {loading && <StatusBanner tone="loading">Loading gallery...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="gallery"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
       {!loading && filteredCharacters.length === 0 && !error && (
-        <div className="gallery-view__status">No characters match the current filters.</div>
+        <StatusBanner tone="empty">No characters match the current filters.</StatusBanner>
+      )}
+      {!loading && !error && total > 0 && (
+        <div className="gallery-view__summary-row">
+          <p className="gallery-view__summary">
+            Loaded {characters.length.toLocaleString()} of {total.toLocaleString()} matching characters
+            {selectedActivity.size > 0 && !indexFilter ? ' (activity filters apply to the loaded ones)' : ''}.
+            {truncated && ` Each combined query stops after ${COMBINED_LIMIT} characters, so some matches may be missing.`}
+          </p>
+          <ExportMenu characters={exportable} title="Marvel character gallery" />
+        </div>
       )}
 
-      <div className="gallery-view__grid">
-        {filteredCharacters.map((character) => (
-          <Link
+      <ul ref={grid.listRef} className="gallery-view__grid" style={grid.style} onKeyDown={roving.onKeyDown}>
+        {filteredCharacters.slice(grid.startIndex, grid.endIndex).map((character, offset) => (
+          <CharacterCard
             key={character.id}
-            to={`/detail/${character.id}`}
-            className="gallery-view__card"
-            state={{ neighbors: neighborList }}
-          >
-            <img src={character.thumbnailUrl} alt={character.name} loading="lazy" />
-            <div className="gallery-view__card-body">
-              <h3>{character.name}</h3>
-              <p className="gallery-view__card-meta">
-                Comics: {character.comics.toLocaleString()} | Events: {character.events}
-              </p>
-              {character.series.length > 0 && (
-                <ul className="gallery-view__series">
-                  {character.series.slice(0, 3).map((seriesName) => (
-                    <li key={seriesName}>{seriesName}</li>
-                  ))}
-                </ul>
-              )}
-            </div>
-          </Link>
+            character={character}
+            linkTo={detailPath(character.id, restoreKey, grid.startIndex + offset)}
+            linkProps={roving.getItemProps(grid.startIndex + offset)}
+            linkState={{ neighbors: neighborList, from: restoreKey }}
+          />
         ))}
-      </div>
+      </ul>
+
+      {hasMore && !loading && !error && (
+        <button type="button" className="gallery-view__more" onClick={loadMore} disabled={loadingMore}>
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
     </section>
   );
 };
@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  NotFoundError,
+  extractIdFromResourceURI,
+  getCharacterById,
+  getEventCharacters,
+  getSeriesCharacters,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelCharacter,
+  type MarvelResourceSummary,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import StatusBanner from '../components/StatusBanner';
+import { runForceLayout, type Point } from '../utils/forceLayout';
+import './GraphView.css';
+
+type NodeKind = 'character' | 'event' | 'series';
+
+interface GraphNode {
+  key: string;
+  kind: NodeKind;
+  id: number;
+  name: string;
+  expanded: boolean;
+}
+
+interface GraphState {
+  nodes: Map<string, GraphNode>;
+  edges: Map<string, [string, string]>;
+}
+
+const LAYOUT_WIDTH = 960;
+const LAYOUT_HEIGHT = 640;
+const LINKS_PER_EXPANSION = 12;
+
+const NODE_RADIUS: Record<NodeKind, number> = {
+  character: 14,
+  event: 10,
+  series: 9,
+};
+
+const KIND_LABELS: Record<NodeKind, string> = {
+  character: 'Character',
+  event: 'Event',
+  series: 'Series',
+};
+
+const nodeKey = (kind: NodeKind, id: number) => `${kind}:${id}`;
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const emptyGraph = (): GraphState => ({ nodes: new Map(), edges: new Map() });
+
+const truncate = (value: string, length = 22) => (value.length > length ? `${value.slice(0, length - 1)}…` : value);
+
+const addNode = (graph: GraphState, kind: NodeKind, id: number, name: string): string => {
+  const key = nodeKey(kind, id);
+  if (!graph.nodes.has(key)) {
+    graph.nodes.set(key, { key, kind, id, name, expanded: false });
+  }
+  return key;
+};
+
+const addEdge = (graph: GraphState, a: string, b: string) => {
+  graph.edges.set(edgeKey(a, b), [a, b]);
+};
+
+const linkSummaries = (graph: GraphState, from: string, kind: NodeKind, items: MarvelResourceSummary[]) => {
+  items.slice(0, LINKS_PER_EXPANSION).forEach((item) => {
+    const id = extractIdFromResourceURI(item.resourceURI);
+    if (id !== null) {
+      addEdge(graph, from, addNode(graph, kind, id, item.name));
+    }
+  });
+};
+
+const linkCharacter = (graph: GraphState, character: MarvelCharacter): string => {
+  const key = addNode(graph, 'character', character.id, character.name);
+  linkSummaries(graph, key, 'event', character.events.items);
+  linkSummaries(graph, key, 'series', character.series.items);
+  return key;
+};
+
+const markExpanded = (graph: GraphState, key: string): GraphState => {
+  const node = graph.nodes.get(key);
+  if (node) {
+    graph.nodes.set(key, { ...node, expanded: true });
+  }
+  return graph;
+};
+
+const cloneGraph = (graph: GraphState): GraphState => ({
+  nodes: new Map(graph.nodes),
+  edges: new Map(graph.edges),
+});
+
+const GraphView: React.FC = () => {
+  const { characterId } = useParams();
+  const [graph, setGraph] = useState<GraphState>(emptyGraph);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const positionsRef = useRef<Map<string, Point>>(new Map());
+
+  useEffect(() => {
+    if (!characterId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadRoot = async () => {
+      setLoading(true);
+      setError(null);
+      positionsRef.current = new Map();
+
+      try {
+        const character = await getCharacterById(characterId);
+        if (!character) {
+          throw new NotFoundError(`No character matches id ${characterId}.`);
+        }
+
+        if (cancelled) {
+          return;
+        }
+
+        const next = emptyGraph();
+        const rootKey = linkCharacter(next, character);
+        setGraph(markExpanded(next, rootKey));
+        setSelectedKey(rootKey);
+      } catch (err) {
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setGraph(emptyGraph());
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadRoot();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [characterId, reloadToken]);
+
+  const expandNode = useCallback(
+    async (key: string) => {
+      const node = graph.nodes.get(key);
+      if (!node || node.expanded || pendingKey) {
+        return;
+      }
+
+      setPendingKey(key);
+      setError(null);
+
+      try {
+        const next = cloneGraph(graph);
+
+        if (node.kind === 'character') {
+          const character = await getCharacterById(node.id);
+          if (character) {
+            linkCharacter(next, character);
+          }
+        } else {
+          const fetcher = node.kind === 'event' ? getEventCharacters : getSeriesCharacters;
+          const data = await fetcher(node.id, { limit: LINKS_PER_EXPANSION });
+          data.results.forEach((character) => {
+            addEdge(next, key, addNode(next, 'character', character.id, character.name));
+          });
+        }
+
+        setGraph(markExpanded(next, key));
+      } catch (err) {
+        setError(toMarvelApiError(err));
+      } finally {
+        setPendingKey(null);
+      }
+    },
+    [graph, pendingKey]
+  );
+
+  const layout = useMemo(() => {
+    const keys = Array.from(graph.nodes.keys());
+    const positions = runForceLayout(keys, Array.from(graph.edges.values()), positionsRef.current, {
+      width: LAYOUT_WIDTH,
+      height: LAYOUT_HEIGHT,
+    });
+    positionsRef.current = positions;
+    return positions;
+  }, [graph]);
+
+  const selectedNode = selectedKey ? graph.nodes.get(selectedKey) ?? null : null;
+  const selectedConnections = useMemo(() => {
+    if (!selectedKey) {
+      return [];
+    }
+
+    return Array.from(graph.edges.values())
+      .filter(([a, b]) => a === selectedKey || b === selectedKey)
+      .map(([a, b]) => graph.nodes.get(a === selectedKey ? b : a))
+      .filter((node): node is GraphNode => Boolean(node));
+  }, [graph, selectedKey]);
+
+  const characterNeighbors = Array.from(graph.nodes.values())
+    .filter((node) => node.kind === 'character')
+    .map((node) => ({ id: node.id, name: node.name }));
+
+  const handleNodeKey = (event: React.KeyboardEvent, key: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      setSelectedKey(key);
+      expandNode(key);
+    }
+  };
+
+  return (
+    <section className="graph-view">
+      <header className="graph-view__header">
+        <div>
+          <h2>Relationship Graph</h2>
+          <p>Click an event or series to pull in the characters who appear in it; click a character to branch out again.</p>
+        </div>
+        <ul className="graph-view__legend">
+          {(Object.keys(KIND_LABELS) as NodeKind[]).map((kind) => (
+            <li key={kind}>
+              <span className={`graph-view__swatch graph-view__swatch--${kind}`} />
+              {KIND_LABELS[kind]}
+            </li>
+          ))}
+        </ul>
+      </header>
+
+      {loading && <StatusBanner tone="loading">Loading graph...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="character"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+
+      {graph.nodes.size > 0 && !loading && (
+        <div className="graph-view__body">
+          <svg
+            className="graph-view__canvas"
+            viewBox={`0 0 ${LAYOUT_WIDTH} ${LAYOUT_HEIGHT}`}
+            role="group"
+            aria-label="Character relationship graph"
+          >
+            <g className="graph-view__edges">
+              {Array.from(graph.edges.entries()).map(([key, [a, b]]) => {
+                const from = layout.get(a);
+                const to = layout.get(b);
+                if (!from || !to) {
+                  return null;
+                }
+                const highlighted = a === selectedKey || b === selectedKey;
+                return (
+                  <line
+                    key={key}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    className={highlighted ? 'graph-view__edge graph-view__edge--active' : 'graph-view__edge'}
+                  />
+                );
+              })}
+            </g>
+            <g className="graph-view__nodes">
+              {Array.from(graph.nodes.values()).map((node) => {
+                const position = layout.get(node.key);
+                if (!position) {
+                  return null;
+                }
+                const classes = [
+                  'graph-view__node',
+                  `graph-view__node--${node.kind}`,
+                  node.expanded ? 'graph-view__node--expanded' : '',
+                  node.key === selectedKey ? 'graph-view__node--selected' : '',
+                  node.key === pendingKey ? 'graph-view__node--pending' : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ');
+
+                return (
+                  <g
+                    key={node.key}
+                    className={classes}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    tabIndex={0}
+                    role="button"
+                    aria-label={`${KIND_LABELS[node.kind]}: ${node.name}${node.expanded ? '' : ' (click to expand)'}`}
+                    onClick={() => {
+                      setSelectedKey(node.key);
+                      expandNode(node.key);
+                    }}
+                    onKeyDown={(event) => handleNodeKey(event, node.key)}
+                  >
+                    <circle r={NODE_RADIUS[node.kind]} />
+                    <text y={NODE_RADIUS[node.kind] + 14}>{truncate(node.name)}</text>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+
+          {selectedNode && (
+            <aside className="graph-view__panel">
+              <span className="graph-view__kind">{KIND_LABELS[selectedNode.kind]}</span>
+              <h3>{selectedNode.name}</h3>
+              {selectedNode.kind === 'character' && (
+                <Link
+                  to={`/detail/${selectedNode.id}`}
+                  state={{ neighbors: characterNeighbors, from: `/graph/${characterId}` }}
+                  className="graph-view__link"
+                >
+                  Open character page
+                </Link>
+              )}
+              {!selectedNode.expanded && (
+                <button
+                  type="button"
+                  className="graph-view__button"
+                  onClick={() => expandNode(selectedNode.key)}
+                  disabled={Boolean(pendingKey)}
+                >
+                  {pendingKey === selectedNode.key ? 'Expanding...' : 'Expand connections'}
+                </button>
+              )}
+              <h4>Connected ({selectedConnections.length})</h4>
+              <ul>
+                {selectedConnections.map((node) => (
+                  <li key={node.key}>
+                    <button type="button" className="graph-view__connection" onClick={() => setSelectedKey(node.key)}>
+                      {node.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </aside>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default GraphView;
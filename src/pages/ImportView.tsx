@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getCharacterById, getCharacters, toMarvelApiError, type MarvelCharacter } from '../api/marvel';
+import { MAX_COMPARE, buildCompareLink } from '../context/CompareContext';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { parseImportList } from '../utils/importList';
+import { getSessionStorage } from '../utils/storage';
+import './ImportView.css';
+
+type EntryStatus = 'pending' | 'resolved' | 'ambiguous' | 'unmatched' | 'failed';
+
+type CharacterMatch = {
+  id: number;
+  name: string;
+};
+
+interface ImportEntry {
+  input: string;
+  status: EntryStatus;
+  match: CharacterMatch | null;
+  candidates: CharacterMatch[];
+  message?: string;
+}
+
+const SESSION_KEY = 'marvel-explorer:import';
+const MAX_ENTRIES = 200;
+const LOOKUP_CONCURRENCY = 3;
+const CANDIDATE_LIMIT = 6;
+
+const toMatch = (character: MarvelCharacter): CharacterMatch => ({ id: character.id, name: character.name });
+
+const pendingEntry = (input: string): ImportEntry => ({ input, status: 'pending', match: null, candidates: [] });
+
+const resolveById = async (input: string): Promise<ImportEntry> => {
+  try {
+    const character = await getCharacterById(input);
+    if (character) {
+      return { input, status: 'resolved', match: toMatch(character), candidates: [] };
+    }
+  } catch (err) {
+    const apiError = toMarvelApiError(err);
+    if (apiError.kind !== 'not-found') {
+      return { input, status: 'failed', match: null, candidates: [], message: apiError.message };
+    }
+  }
+
+  return { input, status: 'unmatched', match: null, candidates: [], message: 'No character has this id.' };
+};
+
+// Exact name first; a prefix search supplies candidates when the name is partial or shared.
+const resolveByName = async (input: string): Promise<ImportEntry> => {
+  try {
+    const exact = await getCharacters({ name: input, limit: 2 });
+    if (exact.results.length === 1) {
+      return { input, status: 'resolved', match: toMatch(exact.results[0]), candidates: [] };
+    }
+
+    const prefix = await getCharacters({ nameStartsWith: input, orderBy: 'name', limit: CANDIDATE_LIMIT });
+    const candidates = [...exact.results, ...prefix.results]
+      .map(toMatch)
+      .filter((candidate, index, list) => list.findIndex((item) => item.id === candidate.id) === index);
+
+    if (candidates.length > 0) {
+      return { input, status: 'ambiguous', match: null, candidates };
+    }
+
+    const stem = input.split(/[\s-]+/)[0].slice(0, 4);
+    const loose =
+      stem.length >= 2 && stem.toLowerCase() !== input.toLowerCase()
+        ? await getCharacters({ nameStartsWith: stem, orderBy: 'name', limit: CANDIDATE_LIMIT })
+        : null;
+
+    return {
+      input,
+      status: 'unmatched',
+      match: null,
+      candidates: loose ? loose.results.map(toMatch) : [],
+      message: 'No character has this name.',
+    };
+  } catch (err) {
+    return { input, status: 'failed', match: null, candidates: [], message: toMarvelApiError(err).message };
+  }
+};
+
+const resolveEntry = (input: string): Promise<ImportEntry> =>
+  /^\d+$/.test(input) ? resolveById(input) : resolveByName(input);
+
+// Kept for the tab's lifetime so following a result to its detail page and back keeps the import.
+const loadSession = (): { text: string; entries: ImportEntry[] } => {
+  try {
+    const raw = getSessionStorage()?.getItem(SESSION_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed.text === 'string' && Array.isArray(parsed.entries)) {
+      return { text: parsed.text, entries: parsed.entries };
+    }
+  } catch (err) {
+    // A corrupt entry just means starting from an empty form.
+  }
+  return { text: '', entries: [] };
+};
+
+const ImportView: React.FC = () => {
+  const [session] = useState(loadSession);
+  const [text, setText] = useState(session.text);
+  const [entries, setEntries] = useState<ImportEntry[]>(session.entries);
+  const [running, setRunning] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const runRef = useRef(0);
+
+  const parsed = useMemo(() => parseImportList(text), [text]);
+
+  useEffect(() => {
+    if (running) {
+      return;
+    }
+
+    try {
+      getSessionStorage()?.setItem(SESSION_KEY, JSON.stringify({ text, entries }));
+    } catch (err) {
+      // Storage full or unavailable; the import still works for this visit.
+    }
+  }, [text, entries, running]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setText(await file.text());
+      setFileError(null);
+    } catch (err) {
+      setFileError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleResolve = async () => {
+    const inputs = parsed.slice(0, MAX_ENTRIES);
+    const runId = runRef.current + 1;
+    runRef.current = runId;
+    setEntries(inputs.map(pendingEntry));
+    setRunning(true);
+
+    await mapWithConcurrency(inputs, LOOKUP_CONCURRENCY, async (input, index) => {
+      const entry = await resolveEntry(input);
+      if (runRef.current === runId) {
+        setEntries((prev) => prev.map((item, itemIndex) => (itemIndex === index ? entry : item)));
+      }
+    });
+
+    if (runRef.current === runId) {
+      setRunning(false);
+    }
+  };
+
+  const chooseCandidate = (index: number, candidate: CharacterMatch) => {
+    setEntries((prev) =>
+      prev.map((item, itemIndex) =>
+        itemIndex === index ? { ...item, status: 'resolved', match: candidate, message: undefined } : item
+      )
+    );
+  };
+
+  const resolvedIds = useMemo(
+    () =>
+      Array.from(
+        new Set(entries.flatMap((entry) => (entry.status === 'resolved' && entry.match ? [entry.match.id] : [])))
+      ),
+    [entries]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<EntryStatus, number> = { pending: 0, resolved: 0, ambiguous: 0, unmatched: 0, failed: 0 };
+    entries.forEach((entry) => {
+      result[entry.status] += 1;
+    });
+    return result;
+  }, [entries]);
+
+  const unresolved = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.status === 'ambiguous' || entry.status === 'unmatched' || entry.status === 'failed');
+
+  return (
+    <section className="import-view">
+      <header className="import-view__header">
+        <h2>Import Characters</h2>
+        <p>
+          Paste names or numeric ids, one per line or separated by commas, or upload a .txt/.csv file. A CSV exported
+          from this app works too.
+        </p>
+      </header>
+
+      <div className="import-view__form">
+        <textarea
+          className="import-view__input"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          rows={8}
+          placeholder={'Spider-Man\nStorm\n1009368'}
+          aria-label="Character names or ids"
+        />
+        <div className="import-view__actions">
+          <label className="import-view__file">
+            Upload file
+            <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} />
+          </label>
+          <span className="import-view__hint">
+            {parsed.length.toLocaleString()} {parsed.length === 1 ? 'entry' : 'entries'}
+            {parsed.length > MAX_ENTRIES ? ` (only the first ${MAX_ENTRIES} will be looked up)` : ''}
+          </span>
+          <button
+            type="button"
+            className="import-view__button"
+            onClick={handleResolve}
+            disabled={running || parsed.length === 0}
+          >
+            {running ? 'Resolving...' : 'Resolve characters'}
+          </button>
+        </div>
+        {fileError && <p className="import-view__error">{fileError}</p>}
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <p className="import-view__progress" aria-live="polite">
+            {running
+              ? `Resolved ${(entries.length - counts.pending).toLocaleString()} of ${entries.length.toLocaleString()}...`
+              : `${counts.resolved} resolved, ${counts.ambiguous} need a choice, ${counts.unmatched} unmatched` +
+                (counts.failed > 0 ? `, ${counts.failed} failed` : '')}
+          </p>
+
+          <div className="import-view__open">
+            <Link
+              to={`/gallery?ids=${resolvedIds.join(',')}`}
+              className={`import-view__button${resolvedIds.length === 0 ? ' import-view__button--disabled' : ''}`}
+              aria-disabled={resolvedIds.length === 0}
+              onClick={(event) => resolvedIds.length === 0 && event.preventDefault()}
+            >
+              Open {resolvedIds.length} in gallery
+            </Link>
+            <Link
+              to={buildCompareLink(resolvedIds.slice(0, MAX_COMPARE))}
+              className={`import-view__button${resolvedIds.length < 2 ? ' import-view__button--disabled' : ''}`}
+              aria-disabled={resolvedIds.length < 2}
+              onClick={(event) => resolvedIds.length < 2 && event.preventDefault()}
+            >
+              Compare
+            </Link>
+            {resolvedIds.length > MAX_COMPARE && (
+              <span className="import-view__hint">Comparison uses the first {MAX_COMPARE} resolved characters.</span>
+            )}
+          </div>
+
+          {unresolved.length > 0 && (
+            <section className="import-view__section">
+              <h3>Needs attention</h3>
+              <ul className="import-view__list">
+                {unresolved.map(({ entry, index }) => (
+                  <li key={`${entry.input}-${index}`} className={`import-view__entry import-view__entry--${entry.status}`}>
+                    <div>
+                      <strong>{entry.input}</strong>{' '}
+                      <span className="import-view__status">
+                        {entry.status === 'ambiguous' ? 'Several matches' : entry.message}
+                      </span>
+                    </div>
+                    {entry.candidates.length > 0 && (
+                      <div className="import-view__candidates">
+                        <span>{entry.status === 'ambiguous' ? 'Pick one:' : 'Did you mean:'}</span>
+                        {entry.candidates.map((candidate) => (
+                          <button key={candidate.id} type="button" onClick={() => chooseCandidate(index, candidate)}>
+                            {candidate.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {counts.resolved > 0 && (
+            <section className="import-view__section">
+              <h3>Resolved</h3>
+              <ul className="import-view__list">
+                {entries.map((entry, index) =>
+                  entry.status === 'resolved' && entry.match ? (
+                    <li key={`${entry.input}-${index}`} className="import-view__entry">
+                      <span>{entry.input}</span>
+                      <span aria-hidden="true">→</span>
+                      <Link to={`/detail/${entry.match.id}`} state={{ from: '/import' }}>
+                        {entry.match.name}
+                      </Link>
+                    </li>
+                  ) : null
+                )}
+              </ul>
+            </section>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ImportView;
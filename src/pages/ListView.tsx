@@ -1,67 +1,83 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useLocation } from 'react-router-dom';
 import {
+  getAllCharacters,
   getCharacters,
+  toMarvelApiError,
   type CharacterSearchParams,
+  type MarvelApiError,
   type MarvelCharacter,
+  type MarvelImage,
+  type MarvelUrl,
 } from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterCard from '../components/CharacterCard';
+import ExportMenu from '../components/ExportMenu';
+import SearchCombobox, { type SearchSuggestion } from '../components/SearchCombobox';
+import SearchHistoryPanel from '../components/SearchHistoryPanel';
+import SortControls from '../components/SortControls';
+import StatusBanner from '../components/StatusBanner';
+import { useActivitySettings } from '../context/ActivitySettingsContext';
+import { useRovingFocus } from '../hooks/useRovingFocus';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { useUrlState } from '../hooks/useUrlState';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
+import { activityCounts, type ActivityCounts } from '../utils/activity';
+import {
+  compareHits,
+  getCharacterIndexSize,
+  matchCharacter,
+  queryTerms,
+  searchCharacterIndex,
+  toIndexedCharacter,
+  type CharacterHit,
+  type IndexedCharacter,
+} from '../utils/characterIndex';
+import {
+  DEFAULT_SORT,
+  FULL_SORT_LIMIT,
+  compareBySortKeys,
+  describeSortKeys,
+  isServerSortable,
+  parseSortKeys,
+  serializeSortKeys,
+  toOrderBy,
+  type SortKey,
+} from '../utils/characterSort';
+import { buildImageUrl } from '../utils/marvelImages';
+import { detailPath } from '../utils/neighborContext';
+import type { RecentSearch, SavedSearch } from '../utils/searchHistory';
 import './ListView.css';
 
-type SortKey = 'name-asc' | 'name-desc' | 'comics-desc' | 'comics-asc';
+type PagingMode = 'pages' | 'infinite';
 
-interface SortOption {
-  label: string;
-  value: SortKey;
-  clientSort: (a: CharacterSummary, b: CharacterSummary) => number;
-}
+type SearchMode = 'prefix' | 'fuzzy';
 
 interface CharacterSummary {
   id: number;
   name: string;
   codename: string;
-  thumbnailUrl: string;
+  thumbnail: MarvelImage | null;
+  modified: string;
   comics: number;
   events: number;
+  activity: ActivityCounts;
+  series: string[];
+  urls: MarvelUrl[];
+  match?: CharacterHit;
 }
 
-const DEFAULT_POSTER =
-  'https://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available/portrait_uncanny.jpg';
 const API_DEBOUNCE_MS = 300;
-const DISPLAY_LIMIT = 10;
-
-const sortOptions: SortOption[] = [
-  {
-    label: 'Name A → Z',
-    value: 'name-asc',
-    clientSort: (a, b) => a.name.localeCompare(b.name),
-  },
-  {
-    label: 'Name Z → A',
-    value: 'name-desc',
-    clientSort: (a, b) => b.name.localeCompare(a.name),
-  },
-  {
-    label: 'Most Comics',
-    value: 'comics-desc',
-    clientSort: (a, b) => b.comics - a.comics,
-  },
-  {
-    label: 'Fewest Comics',
-    value: 'comics-asc',
-    clientSort: (a, b) => a.comics - b.comics,
-  },
-];
-
-const ensureHttps = (url: string) => (url.startsWith('http://') ? url.replace('http://', 'https://') : url);
-
-const buildThumbnailUrl = (thumbnail: MarvelCharacter['thumbnail']): string => {
-  if (!thumbnail?.path || thumbnail.path.includes('image_not_available')) {
-    return DEFAULT_POSTER;
-  }
+const SUGGESTION_DEBOUNCE_MS = 150;
+const PAGE_SIZE = 20;
+const FUZZY_LIMIT = 60;
+const RECENT_SUGGESTION_LIMIT = 4;
+const NAME_SUGGESTION_LIMIT = 6;
 
-  const basePath = ensureHttps(thumbnail.path);
-  return `${basePath}/portrait_uncanny.${thumbnail.extension}`;
-};
+interface CachedPage {
+  results: CharacterSummary[];
+  total: number;
+}
 
 const summarizeCharacter = (character: MarvelCharacter): CharacterSummary => {
   const codename = character.series.items[0]?.name ?? 'Classified Asset';
@@ -70,46 +86,312 @@ const summarizeCharacter = (character: MarvelCharacter): CharacterSummary => {
     id: character.id,
     name: character.name,
     codename,
-    thumbnailUrl: buildThumbnailUrl(character.thumbnail),
+    thumbnail: character.thumbnail,
+    modified: character.modified ?? '',
     comics: character.comics.available,
     events: character.events.available,
+    activity: activityCounts(character),
+    series: character.series.items.map((item) => item.name).filter(Boolean),
+    urls: character.urls ?? [],
   };
 };
 
+const summarizeIndexed = (hit: CharacterHit): CharacterSummary => {
+  const character: IndexedCharacter = hit.character;
+  return {
+    id: character.id,
+    name: character.name,
+    codename: character.seriesRefs[0]?.name ?? 'Classified Asset',
+    thumbnail: character.thumbnail,
+    modified: character.modified,
+    comics: character.comics,
+    events: character.events,
+    activity: {
+      comics: character.comics,
+      events: character.events,
+      series: character.series,
+      stories: character.stories,
+    },
+    series: character.seriesRefs.map((ref) => ref.name),
+    urls: character.urls,
+    match: hit,
+  };
+};
+
+// Ranks the local index together with the server's prefix matches, keeping one entry per character.
+const mergeFuzzyResults = (query: string, serverResults: MarvelCharacter[]): CharacterHit[] => {
+  const terms = queryTerms(query);
+  const hits = searchCharacterIndex(query, FUZZY_LIMIT);
+  const seen = new Set(hits.map((hit) => hit.character.id));
+  const missing = serverResults
+    .filter((character) => !seen.has(character.id))
+    .map((character) => {
+      const indexed = toIndexedCharacter(character);
+      return matchCharacter(indexed, terms) ?? { character: indexed, score: 0, nameRanges: [], detail: null };
+    });
+
+  return [...hits, ...missing].sort(compareHits);
+};
+
+const describeSort = (sort: string): string => describeSortKeys(parseSortKeys(sort));
+
+// Past searches first (all of them while the box is empty), then names the local index already knows.
+const buildSuggestions = (query: string, recent: RecentSearch[]): SearchSuggestion[] => {
+  const trimmed = query.trim();
+  const needle = trimmed.toLowerCase();
+  const history = recent
+    .filter((entry) => entry.query.toLowerCase() !== needle && entry.query.toLowerCase().includes(needle))
+    .slice(0, needle ? RECENT_SUGGESTION_LIMIT : undefined)
+    .map((entry) => ({
+      id: `recent:${entry.query.toLowerCase()}`,
+      value: entry.query,
+      hint: entry.pinned ? 'Pinned' : 'Recent',
+    }));
+
+  if (!needle) {
+    return history;
+  }
+
+  const taken = new Set([needle, ...history.map((suggestion) => suggestion.value.toLowerCase())]);
+  const termCount = queryTerms(trimmed).length;
+  const names = searchCharacterIndex(trimmed, NAME_SUGGESTION_LIMIT * 3)
+    .filter((hit) => hit.nameRanges.length === termCount && !taken.has(hit.character.name.toLowerCase()))
+    .slice(0, NAME_SUGGESTION_LIMIT)
+    .map((hit) => ({
+      id: `character:${hit.character.id}`,
+      value: hit.character.name,
+      hint: 'Character',
+      ranges: hit.nameRanges,
+    }));
+
+  return [...history, ...names];
+};
+
 const ListView: React.FC = () => {
-  const [query, setQuery] = useState('');
-  const [sort, setSort] = useState<SortKey>('name-asc');
+  const location = useLocation();
+  const [searchParams, updateUrl] = useUrlState();
+  const query = searchParams.get('q') ?? '';
+  const sort = serializeSortKeys(parseSortKeys(searchParams.get('sort')));
+  const page = Math.max(0, (Number(searchParams.get('page')) || 1) - 1);
+  const searchMode: SearchMode = searchParams.get('match') === 'fuzzy' ? 'fuzzy' : 'prefix';
+  // Fuzzy results arrive as one ranked batch, so they are never paged.
+  const pagingMode: PagingMode =
+    searchMode === 'prefix' && searchParams.get('scroll') === 'infinite' ? 'infinite' : 'pages';
   const [characters, setCharacters] = useState<CharacterSummary[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const cacheRef = useRef<Map<string, CharacterSummary[]>>(new Map());
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  // Progress of a count-based sort's full load, kept afterwards to tell whether it hit the limit.
+  const [fullLoad, setFullLoad] = useState<{ loaded: number; total: number } | null>(null);
+  const history = useSearchHistory();
+  const { classify, score } = useActivitySettings();
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const cacheRef = useRef<Map<string, CachedPage>>(new Map());
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
-  const activeSort = useMemo(
-    () => sortOptions.find((option) => option.value === sort) ?? sortOptions[0],
-    [sort]
-  );
+  const sortKeys = useMemo(() => parseSortKeys(sort), [sort]);
+  const serverSort = isServerSortable(sortKeys);
+
+  const list = useVirtualGrid<HTMLUListElement>({
+    count: characters.length,
+    estimatedRowHeight: 126,
+    gap: 12,
+    restoreKey: `${location.pathname}${location.search}`,
+  });
+
+  const roving = useRovingFocus<HTMLAnchorElement>(characters.length, {
+    scrollToIndex: list.scrollToIndex,
+    renderedRange: { start: list.startIndex, end: list.endIndex },
+  });
 
   const neighborList = useMemo(
     () => characters.map((character) => ({ id: character.id, name: character.name })),
     [characters]
   );
 
+  const exportable = useMemo(
+    () =>
+      characters.map(({ id, name, comics, events, series, thumbnail, urls }) => ({
+        id,
+        name,
+        comics,
+        events,
+        series,
+        urls,
+        thumbnailUrl: buildImageUrl(thumbnail, 'portrait'),
+      })),
+    [characters]
+  );
+
+  // Rebuilt after each load as well, since every page of results can add names to the local index. The index lookup
+  // waits for a pause in typing; an empty box only lists history, so that shows at once.
+  useEffect(() => {
+    const timeoutId = window.setTimeout(
+      () => setSuggestions(buildSuggestions(query, history.recent)),
+      query.trim() ? SUGGESTION_DEBOUNCE_MS : 0
+    );
+    return () => window.clearTimeout(timeoutId);
+  }, [query, history.recent, characters]);
+
+  const setQuery = (value: string) => updateUrl({ q: value, page: null }, { replace: true });
+
+  const applyRecent = (value: string) => {
+    updateUrl({ q: value, page: null });
+    history.record(value);
+  };
+
+  const applySaved = (search: SavedSearch) => {
+    const savedSort = serializeSortKeys(parseSortKeys(search.sort));
+    updateUrl({ q: search.query, sort: savedSort === DEFAULT_SORT ? null : savedSort, page: null });
+    history.record(search.query);
+  };
+
+  const setSort = (keys: SortKey[]) => {
+    const value = serializeSortKeys(keys);
+    updateUrl({ sort: value === DEFAULT_SORT ? null : value, page: null }, { replace: true });
+  };
+
+  const setPage = (nextPage: number) => {
+    updateUrl({ page: nextPage > 0 ? String(nextPage + 1) : null });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasMore = (page + 1) * PAGE_SIZE < total;
+
   useEffect(() => {
     const trimmed = query.trim();
 
     if (!trimmed) {
       setCharacters([]);
+      setTotal(0);
       setError(null);
       setLoading(false);
       return;
     }
 
+    if (searchMode === 'fuzzy') {
+      let cancelled = false;
+      setLoading(true);
+      setError(null);
+
+      const timeoutId = window.setTimeout(async () => {
+        let serverResults: MarvelCharacter[] = [];
+        try {
+          serverResults = (await getCharacters({ nameStartsWith: trimmed, limit: PAGE_SIZE })).results;
+        } catch (err) {
+          // The local index still answers while the API is unavailable.
+          if (!cancelled) {
+            setError(toMarvelApiError(err));
+          }
+        }
+
+        if (cancelled) {
+          return;
+        }
+
+        const merged = mergeFuzzyResults(trimmed, serverResults).map(summarizeIndexed);
+        setCharacters(merged);
+        setTotal(merged.length);
+        setLoading(false);
+      }, API_DEBOUNCE_MS);
+
+      return () => {
+        cancelled = true;
+        window.clearTimeout(timeoutId);
+      };
+    }
+
     const normalized = trimmed.toLowerCase();
-    const cached = cacheRef.current.get(normalized);
 
-    if (cached) {
-      const sortedCached = [...cached].sort(activeSort.clientSort);
-      setCharacters(sortedCached.slice(0, DISPLAY_LIMIT));
+    // Counts can't be ordered on the server, so those sorts load every match once and page through them here.
+    if (!serverSort) {
+      const fullKey = `${normalized}|all`;
+      const applyFullResults = (): boolean => {
+        const entry = cacheRef.current.get(fullKey);
+        if (!entry) {
+          return false;
+        }
+
+        const sorted = [...entry.results].sort(compareBySortKeys(sortKeys, score));
+        const start = pagingMode === 'infinite' ? 0 : page * PAGE_SIZE;
+        setCharacters(sorted.slice(start, (page + 1) * PAGE_SIZE));
+        setTotal(sorted.length);
+        setFullLoad({ loaded: sorted.length, total: entry.total });
+        return true;
+      };
+
+      if (applyFullResults()) {
+        setError(null);
+        setLoading(false);
+        return;
+      }
+
+      let cancelled = false;
+      setLoading(true);
+      setError(null);
+      setFullLoad(null);
+
+      const timeoutId = window.setTimeout(async () => {
+        try {
+          const data = await getAllCharacters(
+            { nameStartsWith: trimmed, orderBy: 'name' },
+            {
+              max: FULL_SORT_LIMIT,
+              onProgress: (loaded, matches) => {
+                if (!cancelled) {
+                  setFullLoad({ loaded, total: matches });
+                }
+              },
+            }
+          );
+          if (cancelled) {
+            return;
+          }
+
+          cacheRef.current.set(fullKey, { results: data.results.map(summarizeCharacter), total: data.total });
+          applyFullResults();
+        } catch (err) {
+          if (cancelled) {
+            return;
+          }
+
+          setError(toMarvelApiError(err));
+          setCharacters([]);
+          setTotal(0);
+        } finally {
+          if (!cancelled) {
+            setLoading(false);
+          }
+        }
+      }, API_DEBOUNCE_MS);
+
+      return () => {
+        cancelled = true;
+        window.clearTimeout(timeoutId);
+      };
+    }
+
+    const orderBy = toOrderBy(sortKeys);
+    const cacheKey = (pageIndex: number) => `${normalized}|${orderBy}|${pageIndex}`;
+
+    // Infinite mode shows every page up to the current one; page mode only the current page.
+    const visiblePages = pagingMode === 'infinite' ? Array.from({ length: page + 1 }, (_, index) => index) : [page];
+
+    const applyCachedPages = (): boolean => {
+      const cachedPages = visiblePages.map((pageIndex) => cacheRef.current.get(cacheKey(pageIndex)));
+      if (cachedPages.some((entry) => !entry)) {
+        return false;
+      }
+
+      const merged = (cachedPages as CachedPage[]).flatMap((entry) => entry.results);
+      setCharacters(merged);
+      setTotal(cachedPages[cachedPages.length - 1]?.total ?? 0);
+      setFullLoad(null);
+      return true;
+    };
+
+    if (applyCachedPages()) {
       setError(null);
       setLoading(false);
       return;
@@ -121,101 +403,228 @@ const ListView: React.FC = () => {
 
     const timeoutId = window.setTimeout(async () => {
       try {
-        const params: CharacterSearchParams = {
-          limit: DISPLAY_LIMIT,
-          nameStartsWith: trimmed,
-        };
+        for (const pageIndex of visiblePages) {
+          if (cacheRef.current.has(cacheKey(pageIndex))) {
+            continue;
+          }
 
-        const data = await getCharacters(params);
-        if (cancelled) {
-          return;
-        }
+          const params: CharacterSearchParams = {
+            limit: PAGE_SIZE,
+            offset: pageIndex * PAGE_SIZE,
+            nameStartsWith: trimmed,
+            orderBy,
+          };
 
-        const mapped = data.results.map(summarizeCharacter);
-        cacheRef.current.set(normalized, mapped);
+          const data = await getCharacters(params);
+          if (cancelled) {
+            return;
+          }
 
-        const sorted = [...mapped].sort(activeSort.clientSort);
-        setCharacters(sorted.slice(0, DISPLAY_LIMIT));
+          cacheRef.current.set(cacheKey(pageIndex), {
+            results: data.results.map(summarizeCharacter),
+            total: data.total,
+          });
+        }
+
+        applyCachedPages();
       } catch (err) {
         if (cancelled) {
           return;
         }
 
-        setError('Could not load characters right now. Please try again.');
+        setError(toMarvelApiError(err));
         setCharacters([]);
+        setTotal(0);
       } finally {
         if (!cancelled) {
           setLoading(false);
         }
       }
-    }, API_DEBOUNCE_MS);
+    }, page === 0 ? API_DEBOUNCE_MS : 0);
 
     return () => {
       cancelled = true;
       window.clearTimeout(timeoutId);
     };
-  }, [query, activeSort]);
+  }, [query, page, pagingMode, searchMode, serverSort, sortKeys, score, reloadToken]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (pagingMode !== 'infinite' || !sentinel || !hasMore || loading || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        // The URL page is 1-based, so the page after index `page` is `page + 2`.
+        updateUrl({ page: String(page + 2) }, { replace: true });
+      }
+    });
+
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [pagingMode, hasMore, loading, page, updateUrl]);
 
+  const from = `${location.pathname}${location.search}`;
   const showEmpty = !loading && !error && query.trim() !== '' && characters.length === 0;
+  const rangeStart = pagingMode === 'infinite' || searchMode === 'fuzzy' ? 1 : page * PAGE_SIZE + 1;
+  const rangeEnd = rangeStart - 1 + characters.length;
 
   return (
     <section className="list-view">
       <h2 className="list-view__title">Marvel Character Search</h2>
-      <p className="list-view__hint">Start typing a name to look someone up.</p>
+      <p className="list-view__hint">
+        {searchMode === 'fuzzy'
+          ? `Searching names, bios, series and events across ${getCharacterIndexSize().toLocaleString()} characters seen so far.`
+          : 'Start typing a name to look someone up.'}
+      </p>
 
       <div className="list-view__controls">
-        <input
-          type="search"
-          placeholder="Search for a character"
+        <SearchCombobox
           value={query}
-          onChange={(event) => setQuery(event.target.value)}
-          className="list-view__input"
-          aria-label="Search characters"
+          suggestions={suggestions}
+          onChange={setQuery}
+          onCommit={history.record}
+          label="Search characters"
+          placeholder="Search for a character"
+          className="list-view__search"
+          inputClassName="list-view__input"
+        />
+
+        <SortControls
+          keys={sortKeys}
+          onChange={setSort}
+          disabled={searchMode === 'fuzzy'}
+          disabledReason="Fuzzy results are ranked by how well they match"
         />
 
-        <select
-          value={sort}
-          onChange={(event) => setSort(event.target.value as SortKey)}
-          className="list-view__select"
-          aria-label="Sort characters"
-        >
-          {sortOptions.map((option) => (
-            <option key={option.value} value={option.value}>
-              {option.label}
-            </option>
-          ))}
-        </select>
+        <label className="list-view__toggle">
+          <input
+            type="checkbox"
+            checked={searchMode === 'fuzzy'}
+            onChange={(event) => updateUrl({ match: event.target.checked ? 'fuzzy' : null, page: null })}
+          />
+          Fuzzy search
+        </label>
+
+        {searchMode === 'prefix' && (
+          <label className="list-view__toggle">
+            <input
+              type="checkbox"
+              checked={pagingMode === 'infinite'}
+              onChange={(event) => updateUrl({ scroll: event.target.checked ? 'infinite' : null, page: null })}
+            />
+            Infinite scroll
+          </label>
+        )}
       </div>
 
-      {loading && <div className="list-view__status">Loading...</div>}
-      {error && <div className="list-view__status list-view__status--error">{error}</div>}
-      {showEmpty && <div className="list-view__status">No characters found for that search.</div>}
-
-      <ul className="list-view__results">
-        {characters.map((character) => (
-          <li key={character.id} className="list-view__item">
-            <Link
-              to={`/detail/${character.id}`}
-              className="list-view__link"
-              state={{ neighbors: neighborList }}
-            >
-              <img
-                src={character.thumbnailUrl}
-                alt={character.name}
-                className="list-view__thumb"
-                loading="lazy"
-              />
-              <div className="list-view__info">
-                <h3>{character.name}</h3>
-                <p>Alias: {character.codename}</p>
-                <p>
-                  Comics: {character.comics.toLocaleString()} | Events: {character.events}
-                </p>
-              </div>
-            </Link>
-          </li>
+      <SearchHistoryPanel
+        recent={history.recent}
+        saved={history.saved}
+        currentQuery={query}
+        describeSort={describeSort}
+        onApplyRecent={applyRecent}
+        onApplySaved={applySaved}
+        onTogglePin={history.togglePin}
+        onClearRecent={history.clearRecent}
+        onSave={(name) => history.saveSearch(name, query, sort)}
+        onRemoveSaved={history.removeSaved}
+      />
+
+      {characters.length > 0 && (
+        <div className="list-view__summary">
+          <p className="list-view__count" aria-live="polite">
+            Showing {rangeStart.toLocaleString()}–{rangeEnd.toLocaleString()} of {total.toLocaleString()}
+          </p>
+          <ExportMenu characters={exportable} title={`Marvel characters matching ${query.trim()}`} />
+        </div>
+      )}
+
+      {loading &&
+        (fullLoad ? (
+          <StatusBanner tone="loading">
+            Loading every match to sort them: {fullLoad.loaded.toLocaleString()} of {fullLoad.total.toLocaleString()}
+            <progress className="list-view__progress" value={fullLoad.loaded} max={fullLoad.total} />
+          </StatusBanner>
+        ) : (
+          <StatusBanner tone="loading">Loading...</StatusBanner>
+        ))}
+      {!loading && fullLoad && fullLoad.total > fullLoad.loaded && (
+        <StatusBanner tone="info">
+          Sorted the first {fullLoad.loaded.toLocaleString()} of {fullLoad.total.toLocaleString()} matches. Narrow the
+          search to sort all of them.
+        </StatusBanner>
+      )}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject="characters"
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+      {showEmpty && <StatusBanner tone="empty">No characters found for that search.</StatusBanner>}
+
+      <ul
+        ref={list.listRef}
+        className="list-view__results"
+        style={list.style}
+        onKeyDown={roving.onKeyDown}
+      >
+        {characters.slice(list.startIndex, list.endIndex).map((character, offset) => (
+          <CharacterCard
+            key={character.id}
+            character={{ ...character, tier: classify(character.activity)?.name }}
+            layout="row"
+            match={character.match}
+            linkTo={detailPath(character.id, from, rangeStart - 1 + list.startIndex + offset)}
+            linkProps={roving.getItemProps(list.startIndex + offset)}
+            linkState={{ neighbors: neighborList, from }}
+            // Opening a result counts as settling on the query.
+            onOpen={() => history.record(query)}
+          />
         ))}
       </ul>
+
+      {searchMode === 'prefix' && pagingMode === 'pages' && total > PAGE_SIZE && (
+        <div className="list-view__pagination">
+          <button
+            type="button"
+            className="list-view__page-button"
+            onClick={() => setPage(Math.max(0, page - 1))}
+            disabled={page === 0 || loading}
+          >
+            Previous
+          </button>
+          <span className="list-view__page-label">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="list-view__page-button"
+            onClick={() => setPage(page + 1)}
+            disabled={!hasMore || loading}
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {pagingMode === 'infinite' && hasMore && (
+        <div ref={sentinelRef} className="list-view__sentinel">
+          <button
+            type="button"
+            className="list-view__page-button"
+            onClick={() => setPage(page + 1)}
+            disabled={loading}
+          >
+            {loading ? 'Loading more...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </section>
   );
 };
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import {
+  NotFoundError,
+  extractIdFromResourceURI,
+  getEventById,
+  getSeriesById,
+  getStoryById,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelEvent,
+  type MarvelImage,
+  type MarvelResourceList,
+  type MarvelSeries,
+  type MarvelStory,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import CharacterImage from '../components/CharacterImage';
+import ResourceList, { type ResourceListItem } from '../components/ResourceList';
+import StatusBanner from '../components/StatusBanner';
+import './ResourceDetailView.css';
+
+export type ResourceKind = 'series' | 'events' | 'stories';
+
+interface ResourceDetailViewProps {
+  kind: ResourceKind;
+}
+
+type LinkedEntry = {
+  id: number | null;
+  name: string;
+};
+
+type ResourceDetailData = {
+  id: number;
+  title: string;
+  description: string;
+  image: MarvelImage | null;
+  meta: string[];
+  characters: LinkedEntry[];
+  charactersAvailable: number;
+  comics: LinkedEntry[];
+  comicsAvailable: number;
+};
+
+const KIND_LABELS: Record<ResourceKind, { singular: string; plural: string }> = {
+  series: { singular: 'series', plural: 'Series' },
+  events: { singular: 'event', plural: 'Events' },
+  stories: { singular: 'story', plural: 'Stories' },
+};
+
+const toLinked = (list: MarvelResourceList | undefined): LinkedEntry[] =>
+  (list?.items ?? []).map((item) => ({ id: extractIdFromResourceURI(item.resourceURI), name: item.name }));
+
+const toListItems = (entries: LinkedEntry[], route: string, from: string): ResourceListItem[] =>
+  entries.map((entry) => ({
+    key: `${entry.id}-${entry.name}`,
+    label: entry.name,
+    to: entry.id ? `${route}/${entry.id}` : null,
+    state: { from },
+  }));
+
+const formatDate = (value: string | null): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toLocaleDateString();
+};
+
+const describeMeta = (kind: ResourceKind, resource: MarvelSeries | MarvelEvent | MarvelStory): string[] => {
+  if (kind === 'series') {
+    const series = resource as MarvelSeries;
+    return [
+      `${series.startYear}–${series.endYear}`,
+      series.type ? `Type: ${series.type}` : '',
+      series.rating ? `Rating: ${series.rating}` : '',
+    ].filter(Boolean);
+  }
+
+  if (kind === 'events') {
+    const event = resource as MarvelEvent;
+    const start = formatDate(event.start);
+    const end = formatDate(event.end);
+    return start || end ? [`${start ?? 'Unknown'} – ${end ?? 'Unknown'}`] : [];
+  }
+
+  const story = resource as MarvelStory;
+  return [
+    story.type ? `Type: ${story.type}` : '',
+    story.originalIssue ? `Original issue: ${story.originalIssue.name}` : '',
+  ].filter(Boolean);
+};
+
+const loadResource = (kind: ResourceKind, id: string) => {
+  if (kind === 'series') {
+    return getSeriesById(id);
+  }
+  if (kind === 'events') {
+    return getEventById(id);
+  }
+  return getStoryById(id);
+};
+
+const mapToResourceDetail = (
+  kind: ResourceKind,
+  resource: MarvelSeries | MarvelEvent | MarvelStory
+): ResourceDetailData => {
+  return {
+    id: resource.id,
+    title: resource.title,
+    description: resource.description?.trim() || 'No description available.',
+    image: resource.thumbnail,
+    meta: describeMeta(kind, resource),
+    characters: toLinked(resource.characters),
+    charactersAvailable: resource.characters?.available ?? 0,
+    comics: toLinked(resource.comics),
+    comicsAvailable: resource.comics?.available ?? 0,
+  };
+};
+
+const describeBackLink = (from: string) => {
+  if (from.startsWith('/detail')) {
+    return 'Back to Character';
+  }
+  if (from.startsWith('/timeline')) {
+    return 'Back to Timeline';
+  }
+  return 'Back';
+};
+
+const ResourceDetailView: React.FC<ResourceDetailViewProps> = ({ kind }) => {
+  const { resourceId } = useParams();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
+  const [detail, setDetail] = useState<ResourceDetailData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const labels = KIND_LABELS[kind];
+
+  useEffect(() => {
+    if (!resourceId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadDetail = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await loadResource(kind, resourceId);
+        if (!data) {
+          throw new NotFoundError(`No ${KIND_LABELS[kind].singular} matches id ${resourceId}.`);
+        }
+
+        if (cancelled) {
+          return;
+        }
+
+        setDetail(mapToResourceDetail(kind, data));
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+
+        setError(toMarvelApiError(err));
+        setDetail(null);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadDetail();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, resourceId, reloadToken]);
+
+  const here = `${location.pathname}${location.search}`;
+
+  return (
+    <section className="resource-detail-view">
+      {loading && <StatusBanner tone="loading">Loading {labels.singular}...</StatusBanner>}
+      {error && (
+        <ApiErrorNotice
+          error={error}
+          subject={labels.singular}
+          onRetry={() => setReloadToken((prev) => prev + 1)}
+        />
+      )}
+
+      {detail && !loading && (
+        <>
+          <div className="resource-detail-view__hero">
+            <CharacterImage
+              thumbnail={detail.image}
+              alt={detail.title}
+              sizes="(max-width: 640px) 100vw, 260px"
+              loading="eager"
+            />
+            <div className="resource-detail-view__hero-info">
+              <span className="resource-detail-view__kind">{labels.plural}</span>
+              <h2>{detail.title}</h2>
+              {detail.meta.map((line) => (
+                <p key={line} className="resource-detail-view__meta">
+                  {line}
+                </p>
+              ))}
+              <p>{detail.description}</p>
+            </div>
+          </div>
+
+          <div className="resource-detail-view__grid">
+            <section>
+              <h3>Characters ({detail.charactersAvailable.toLocaleString()})</h3>
+              <ResourceList
+                emptyText="No characters listed."
+                items={toListItems(detail.characters, '/detail', here)}
+              />
+            </section>
+
+            <section>
+              <h3>Comics ({detail.comicsAvailable.toLocaleString()})</h3>
+              <ResourceList emptyText="No comics listed." items={toListItems(detail.comics, '/comics', here)} />
+            </section>
+          </div>
+
+          {from && (
+            <div className="resource-detail-view__back">
+              <Link to={from}>{describeBackLink(from)}</Link>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ResourceDetailView;
@@ -0,0 +1,196 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useActivitySettings } from '../context/ActivitySettingsContext';
+import {
+  ACTIVITY_COUNT_KEYS,
+  METRIC_LABELS,
+  describeTierRange,
+  type ActivityCountKey,
+  type ActivityMetric,
+} from '../utils/activity';
+import { getIndexedCharacters } from '../utils/characterIndex';
+import './SettingsView.css';
+
+const METRIC_OPTIONS: { value: ActivityMetric; label: string }[] = [
+  { value: 'comics', label: 'Comics' },
+  { value: 'events', label: 'Events' },
+  { value: 'series', label: 'Series' },
+  { value: 'stories', label: 'Stories' },
+  { value: 'score', label: 'Weighted score' },
+];
+
+const WEIGHT_LABELS: Record<ActivityCountKey, string> = {
+  comics: 'Points per comic',
+  events: 'Points per event',
+  series: 'Points per series',
+  stories: 'Points per story',
+};
+
+const parseCount = (value: string): number => Math.max(0, Number(value) || 0);
+
+const SettingsView: React.FC = () => {
+  const { tiers, weights, classify, addTier, updateTier, removeTier, moveTier, setWeight, resetSettings } =
+    useActivitySettings();
+
+  // Previewed against the local character index, so edits show their effect without any API calls.
+  const preview = useMemo(() => {
+    const characters = getIndexedCharacters();
+    const counts = new Map<string, number>();
+    characters.forEach((character) => {
+      const tier = classify(character);
+      const key = tier?.id ?? '';
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return { total: characters.length, counts };
+  }, [classify]);
+
+  const unmatched = preview.counts.get('') ?? 0;
+
+  return (
+    <section className="settings-view">
+      <header className="settings-view__header">
+        <h2>Activity Tiers</h2>
+        <p>
+          Tiers drive the gallery's activity chips, the badges on character cards and the activity score sorts in
+          search. A character lands in the first tier whose range matches, so order matters.
+        </p>
+      </header>
+
+      <section className="settings-view__panel" aria-labelledby="settings-tiers">
+        <div className="settings-view__panel-header">
+          <h3 id="settings-tiers">Tiers</h3>
+          <button type="button" className="settings-view__button" onClick={addTier}>
+            Add tier
+          </button>
+        </div>
+
+        {tiers.length === 0 ? (
+          <p className="settings-view__note">No tiers defined. Characters won't get badges or activity filters.</p>
+        ) : (
+          <ol className="settings-view__tiers">
+            {tiers.map((tier, index) => (
+              <li key={tier.id} className="settings-view__tier">
+                <label className="settings-view__field settings-view__field--name">
+                  Name
+                  <input
+                    type="text"
+                    value={tier.name}
+                    onChange={(event) => updateTier(tier.id, { name: event.target.value })}
+                  />
+                </label>
+                <label className="settings-view__field">
+                  Metric
+                  <select
+                    value={tier.metric}
+                    onChange={(event) => updateTier(tier.id, { metric: event.target.value as ActivityMetric })}
+                  >
+                    {METRIC_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="settings-view__field">
+                  Minimum
+                  <input
+                    type="number"
+                    min={0}
+                    value={tier.min}
+                    onChange={(event) => updateTier(tier.id, { min: parseCount(event.target.value) })}
+                  />
+                </label>
+                <label className="settings-view__field">
+                  Less than
+                  <input
+                    type="number"
+                    min={0}
+                    value={tier.max ?? ''}
+                    placeholder="No limit"
+                    onChange={(event) =>
+                      updateTier(tier.id, { max: event.target.value === '' ? null : parseCount(event.target.value) })
+                    }
+                  />
+                </label>
+                <div className="settings-view__tier-actions">
+                  <button
+                    type="button"
+                    onClick={() => moveTier(tier.id, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${tier.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveTier(tier.id, 1)}
+                    disabled={index === tiers.length - 1}
+                    aria-label={`Move ${tier.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <button type="button" onClick={() => removeTier(tier.id)} aria-label={`Remove ${tier.name}`}>
+                    ✕
+                  </button>
+                </div>
+                <p className="settings-view__tier-summary">
+                  {describeTierRange(tier)} · {(preview.counts.get(tier.id) ?? 0).toLocaleString()} of{' '}
+                  {preview.total.toLocaleString()} loaded characters
+                  {tier.max !== null && tier.max <= tier.min && (
+                    <span className="settings-view__warning">
+                      {' '}
+                      · The upper bound isn't above the minimum, so nothing matches.
+                    </span>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {preview.total > 0 && unmatched > 0 && (
+          <p className="settings-view__note">
+            {unmatched.toLocaleString()} loaded characters fall outside every tier and get no badge.
+          </p>
+        )}
+      </section>
+
+      <section className="settings-view__panel" aria-labelledby="settings-weights">
+        <h3 id="settings-weights">Weighted score</h3>
+        <p className="settings-view__note">
+          Score = the sum of each appearance count times its weight. Tiers measured in {METRIC_LABELS.score} and the
+          score sorts use it.
+        </p>
+        <div className="settings-view__weights">
+          {ACTIVITY_COUNT_KEYS.map((key) => (
+            <label key={key} className="settings-view__field">
+              {WEIGHT_LABELS[key]}
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={weights[key]}
+                onChange={(event) => setWeight(key, Number(event.target.value))}
+              />
+            </label>
+          ))}
+        </div>
+      </section>
+
+      <div className="settings-view__footer">
+        <button
+          type="button"
+          className="settings-view__button settings-view__button--secondary"
+          onClick={resetSettings}
+        >
+          Reset to defaults
+        </button>
+        <Link to="/gallery" className="settings-view__link">
+          Open the gallery
+        </Link>
+      </div>
+    </section>
+  );
+};
+
+export default SettingsView;
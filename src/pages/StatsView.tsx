@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import BarChart, { type BarChartDatum } from '../components/BarChart';
+import ResourceList from '../components/ResourceList';
+import StatusBanner from '../components/StatusBanner';
+import { useActivitySettings } from '../context/ActivitySettingsContext';
+import { getIndexedCharacters } from '../utils/characterIndex';
+import { computeCharacterStats, modifiedTime, type CountBin, type SharedResource, type TierCount } from '../utils/characterStats';
+import { buildIndexGalleryLink, formatRange } from '../utils/galleryQuery';
+import './StatsView.css';
+
+// Every drill-down filters the same local index these numbers come from, so each bar opens what it counts.
+const binData = (bins: CountBin[], param: 'comicRange' | 'eventRange'): BarChartDatum[] =>
+  bins.map((bin) => ({
+    key: String(bin.min),
+    label: bin.label,
+    value: bin.ids.length,
+    to: bin.ids.length > 0 ? buildIndexGalleryLink({ [param]: formatRange(bin) }) : null,
+  }));
+
+const tierData = (tiers: TierCount[]): BarChartDatum[] =>
+  tiers.map((tier) => ({
+    key: tier.tier,
+    label: tier.label,
+    value: tier.count,
+    to: tier.count > 0 ? buildIndexGalleryLink({ activity: tier.tier }) : null,
+  }));
+
+const sharedData = (resources: SharedResource[], filter: 'series' | 'events'): BarChartDatum[] =>
+  resources.map((resource) => ({
+    key: String(resource.id),
+    label: resource.name,
+    value: resource.count,
+    to: `/gallery?${filter}=${resource.id}`,
+  }));
+
+const toDateParam = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const StatsView: React.FC = () => {
+  // The local character index is everything this browser has loaded so far, across visits.
+  const { tiers, weights } = useActivitySettings();
+  const stats = useMemo(() => computeCharacterStats(getIndexedCharacters(), { tiers, weights }), [tiers, weights]);
+  const oldestRecent = stats.recentlyModified[stats.recentlyModified.length - 1];
+  const neighbors = stats.recentlyModified.map((character) => ({ id: character.id, name: character.name }));
+
+  return (
+    <section className="stats-view">
+      <header className="stats-view__header">
+        <h2>Character Statistics</h2>
+        <p>
+          Aggregated over the {stats.total.toLocaleString()} characters loaded in this browser so far. Searching and
+          browsing the gallery adds more. Every bar opens the matching characters in the gallery.
+        </p>
+      </header>
+
+      {stats.total === 0 ? (
+        <StatusBanner tone="empty">
+          No characters loaded yet. <Link to="/gallery">Browse the gallery</Link> to start building the numbers.
+        </StatusBanner>
+      ) : (
+        <div className="stats-view__grid">
+          <section className="stats-view__panel stats-view__panel--wide" aria-labelledby="stats-comics">
+            <h3 id="stats-comics">Comic appearances</h3>
+            <BarChart
+              data={binData(stats.comicBins, 'comicRange')}
+              label="Characters by number of comics"
+              unit="characters"
+              layout="columns"
+            />
+          </section>
+
+          <section className="stats-view__panel stats-view__panel--wide" aria-labelledby="stats-events">
+            <h3 id="stats-events">Event appearances</h3>
+            <BarChart
+              data={binData(stats.eventBins, 'eventRange')}
+              label="Characters by number of events"
+              unit="characters"
+              layout="columns"
+            />
+          </section>
+
+          <section className="stats-view__panel" aria-labelledby="stats-tiers">
+            <h3 id="stats-tiers">Activity tiers</h3>
+            <BarChart
+              data={tierData(stats.tiers)}
+              label="Characters per activity tier"
+              unit="characters"
+            />
+          </section>
+
+          <section className="stats-view__panel" aria-labelledby="stats-missing">
+            <h3 id="stats-missing">Missing data</h3>
+            <BarChart
+              data={[
+                {
+                  key: 'description',
+                  label: 'No description',
+                  value: stats.noDescription.length,
+                  to: stats.noDescription.length > 0 ? buildIndexGalleryLink({ missing: 'description' }) : null,
+                },
+                {
+                  key: 'image',
+                  label: 'No image',
+                  value: stats.noImage.length,
+                  to: stats.noImage.length > 0 ? buildIndexGalleryLink({ missing: 'image' }) : null,
+                },
+              ]}
+              label="Characters with missing data"
+              unit="characters"
+            />
+          </section>
+
+          <section className="stats-view__panel" aria-labelledby="stats-series">
+            <h3 id="stats-series">Most shared series</h3>
+            <BarChart data={sharedData(stats.topSeries, 'series')} label="Most shared series" unit="characters" />
+            <p className="stats-view__note">Counted from the first 20 series the API lists for each character.</p>
+          </section>
+
+          <section className="stats-view__panel" aria-labelledby="stats-shared-events">
+            <h3 id="stats-shared-events">Most shared events</h3>
+            <BarChart data={sharedData(stats.topEvents, 'events')} label="Most shared events" unit="characters" />
+          </section>
+
+          <section className="stats-view__panel stats-view__panel--wide" aria-labelledby="stats-recent">
+            <div className="stats-view__panel-header">
+              <h3 id="stats-recent">Recently modified</h3>
+              {oldestRecent && (
+                <Link to={`/gallery?since=${toDateParam(modifiedTime(oldestRecent))}`} className="stats-view__link">
+                  Open in gallery
+                </Link>
+              )}
+            </div>
+            <ResourceList
+              items={stats.recentlyModified.map((character) => ({
+                key: String(character.id),
+                label: character.name,
+                to: `/detail/${character.id}`,
+                state: { neighbors, from: '/stats' },
+                note: new Date(modifiedTime(character)).toLocaleDateString(),
+                thumbnail: character.thumbnail,
+              }))}
+              emptyText="None of the loaded characters have a modification date."
+              withThumbnails
+            />
+          </section>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default StatsView;
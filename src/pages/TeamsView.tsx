@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRosters, type CharacterRef, type Team } from '../context/RostersContext';
+import { detailPath } from '../utils/neighborContext';
+import './TeamsView.css';
+
+const FAVORITES_FROM = '/teams#favorites';
+
+const toNeighbors = (members: CharacterRef[]) => members.map((member) => ({ id: member.id, name: member.name }));
+
+interface TeamCardProps {
+  team: Team;
+  index: number;
+  teamCount: number;
+  favorites: CharacterRef[];
+}
+
+const TeamCard: React.FC<TeamCardProps> = ({ team, index, teamCount, favorites }) => {
+  const { renameTeam, deleteTeam, moveTeam, addToTeam, removeFromTeam, moveMember } = useRosters();
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState(team.name);
+  const neighbors = toNeighbors(team.members);
+  const from = `/teams#team-${team.id}`;
+  const addable = favorites.filter((favorite) => !team.members.some((member) => member.id === favorite.id));
+
+  const submitRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    renameTeam(team.id, draftName);
+    setEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the team "${team.name}"?`)) {
+      deleteTeam(team.id);
+    }
+  };
+
+  return (
+    <li className="teams-view__team">
+      <div className="teams-view__team-header">
+        {editing ? (
+          <form className="teams-view__rename" onSubmit={submitRename}>
+            <input
+              value={draftName}
+              onChange={(event) => setDraftName(event.target.value)}
+              className="teams-view__input"
+              aria-label="Team name"
+              autoFocus
+            />
+            <button type="submit" className="teams-view__button">
+              Save
+            </button>
+            <button
+              type="button"
+              className="teams-view__button"
+              onClick={() => {
+                setDraftName(team.name);
+                setEditing(false);
+              }}
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <h3>
+            {team.name} <span className="teams-view__count">({team.members.length})</span>
+          </h3>
+        )}
+
+        <div className="teams-view__actions">
+          {!editing && (
+            <button type="button" className="teams-view__button" onClick={() => setEditing(true)}>
+              Rename
+            </button>
+          )}
+          <button
+            type="button"
+            className="teams-view__button"
+            onClick={() => moveTeam(team.id, -1)}
+            disabled={index === 0}
+            aria-label={`Move ${team.name} up`}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            className="teams-view__button"
+            onClick={() => moveTeam(team.id, 1)}
+            disabled={index === teamCount - 1}
+            aria-label={`Move ${team.name} down`}
+          >
+            ↓
+          </button>
+          <button type="button" className="teams-view__button teams-view__button--danger" onClick={handleDelete}>
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {team.members.length > 0 ? (
+        <ol className="teams-view__members">
+          {team.members.map((member, memberIndex) => (
+            <li key={member.id} className="teams-view__member">
+              <Link to={detailPath(member.id, from, memberIndex)} state={{ neighbors, from }}>
+                {member.name}
+              </Link>
+              <div className="teams-view__actions">
+                <button
+                  type="button"
+                  className="teams-view__button"
+                  onClick={() => moveMember(team.id, member.id, -1)}
+                  disabled={memberIndex === 0}
+                  aria-label={`Move ${member.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="teams-view__button"
+                  onClick={() => moveMember(team.id, member.id, 1)}
+                  disabled={memberIndex === team.members.length - 1}
+                  aria-label={`Move ${member.name} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  className="teams-view__button"
+                  onClick={() => removeFromTeam(team.id, member.id)}
+                  aria-label={`Remove ${member.name} from ${team.name}`}
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="teams-view__empty">No members yet. Add favorites below or use the team picker on a character page.</p>
+      )}
+
+      {addable.length > 0 && (
+        <select
+          className="teams-view__select"
+          value=""
+          aria-label={`Add a favorite to ${team.name}`}
+          onChange={(event) => {
+            const favorite = addable.find((item) => item.id === Number(event.target.value));
+            if (favorite) {
+              addToTeam(team.id, favorite);
+            }
+          }}
+        >
+          <option value="">Add a favorite…</option>
+          {addable.map((favorite) => (
+            <option key={favorite.id} value={favorite.id}>
+              {favorite.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </li>
+  );
+};
+
+const TeamsView: React.FC = () => {
+  const { favorites, teams, toggleFavorite, createTeam } = useRosters();
+  const [newTeamName, setNewTeamName] = useState('');
+  const favoriteNeighbors = toNeighbors(favorites);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newTeamName.trim()) {
+      return;
+    }
+
+    createTeam(newTeamName);
+    setNewTeamName('');
+  };
+
+  return (
+    <section className="teams-view">
+      <header className="teams-view__header">
+        <h2>Favorites &amp; Teams</h2>
+        <p>Star characters anywhere in the app, then group them into named rosters.</p>
+      </header>
+
+      <section className="teams-view__panel">
+        <h3>Favorites</h3>
+        {favorites.length > 0 ? (
+          <ul className="teams-view__favorites">
+            {favorites.map((favorite, favoriteIndex) => (
+              <li key={favorite.id} className="teams-view__member">
+                <Link
+                  to={detailPath(favorite.id, FAVORITES_FROM, favoriteIndex)}
+                  state={{ neighbors: favoriteNeighbors, from: FAVORITES_FROM }}
+                >
+                  {favorite.name}
+                </Link>
+                <button
+                  type="button"
+                  className="teams-view__button"
+                  onClick={() => toggleFavorite(favorite)}
+                  aria-label={`Remove ${favorite.name} from favorites`}
+                >
+                  Unfavorite
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="teams-view__empty">No favorites yet. Use the ☆ button on any character.</p>
+        )}
+      </section>
+
+      <section className="teams-view__panel">
+        <h3>Teams</h3>
+        <form className="teams-view__create" onSubmit={handleCreate}>
+          <input
+            value={newTeamName}
+            onChange={(event) => setNewTeamName(event.target.value)}
+            placeholder="New team name"
+            className="teams-view__input"
+            aria-label="New team name"
+          />
+          <button type="submit" className="teams-view__button" disabled={!newTeamName.trim()}>
+            Create team
+          </button>
+        </form>
+
+        {teams.length > 0 ? (
+          <ul className="teams-view__teams">
+            {teams.map((team, index) => (
+              <TeamCard key={team.id} team={team} index={index} teamCount={teams.length} favorites={favorites} />
+            ))}
+          </ul>
+        ) : (
+          <p className="teams-view__empty">No teams yet.</p>
+        )}
+      </section>
+    </section>
+  );
+};
+
+export default TeamsView;
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import {
+  NotFoundError,
+  fetchAllPages,
+  getCharacterById,
+  getCharacterComics,
+  getCharacterEvents,
+  toMarvelApiError,
+  type MarvelApiError,
+  type MarvelComic,
+  type MarvelEvent,
+} from '../api/marvel';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import ResourceList from '../components/ResourceList';
+import StatusBanner from '../components/StatusBanner';
+import { useUrlState } from '../hooks/useUrlState';
+import { groupComicsByYear, onsaleDate, toTimelineEvents, yearLabelStep, type YearBucket } from '../utils/timeline';
+import './TimelineView.css';
+
+interface TimelineData {
+  name: string;
+  comics: MarvelComic[];
+  totalComics: number;
+  events: MarvelEvent[];
+}
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 280;
+const MARGIN = { top: 16, right: 16, bottom: 64, left: 44 };
+const PLOT_WIDTH = CHART_WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+// Comics are fetched 100 per request, so each step costs a handful of calls for the busiest characters.
+const COMIC_BUDGET_STEP = 500;
+const EVENT_LIMIT = 100;
+
+const formatIssueDate = (comic: MarvelComic): string | undefined => {
+  const parsed = new Date(onsaleDate(comic) ?? '');
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toLocaleDateString();
+};
+
+const describeYear = (bucket: YearBucket) =>
+  `${bucket.year}: ${bucket.comics.length} ${bucket.comics.length === 1 ? 'comic' : 'comics'}`;
+
+const TimelineView: React.FC = () => {
+  const { characterId } = useParams();
+  const location = useLocation();
+  const [searchParams, updateUrl] = useUrlState();
+  const selectedYear = Number(searchParams.get('year')) || null;
+  const [data, setData] = useState<TimelineData | null>(null);
+  // The budget belongs to one character, so moving to another starts back at a single step.
+  const [budget, setBudget] = useState({ characterId, max: COMIC_BUDGET_STEP });
+  const comicBudget = budget.characterId === characterId ? budget.max : COMIC_BUDGET_STEP;
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MarvelApiError | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (!characterId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadTimeline = async () => {
+      setLoading(true);
+      setError(null);
+      setProgress(null);
+
+      try {
+        const character = await getCharacterById(characterId);
+        if (!character) {
+          throw new NotFoundError(`No character matches id ${characterId}.`);
+        }
+
+        // Earlier pages come back from the response cache when the budget grows.
+        const [comics, events] = await Promise.all([
+          fetchAllPages(
+            (page) => getCharacterComics(characterId, { ...page, orderBy: 'onsaleDate', noVariants: true }),
+            {
+              max: comicBudget,
+              onProgress: (loaded, total) => {
+                if (!cancelled) {
+                  setProgress({ loaded, total });
+                }
+              },
+            }
+          ),
+          fetchAllPages((page) => getCharacterEvents(characterId, { ...page, orderBy: 'startDate' }), {
+            max: EVENT_LIMIT,
+          }),
+        ]);
+
+        if (cancelled) {
+          return;
+        }
+
+        setData({ name: character.name, comics: comics.results, totalComics: comics.total, events: events.results });
+      } catch (err) {
+        if (!cancelled) {
+          setError(toMarvelApiError(err));
+          setData(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadTimeline();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [characterId, comicBudget, reloadToken]);
+
+  const events = useMemo(() => toTimelineEvents(data?.events ?? []), [data]);
+  const timeline = useMemo(
+    () => groupComicsByYear(data?.comics ?? [], events.flatMap((event) => [event.startYear, event.endYear])),
+    [data, events]
+  );
+
+  const { buckets, undated } = timeline;
+  const firstYear = buckets[0]?.year ?? 0;
+  const datedCount = (data?.comics.length ?? 0) - undated.length;
+  const peak = buckets.reduce<YearBucket | null>(
+    (best, bucket) => (!best || bucket.comics.length > best.comics.length ? bucket : best),
+    null
+  );
+  const maxCount = Math.max(1, peak?.comics.length ?? 0);
+  const slot = buckets.length > 0 ? PLOT_WIDTH / buckets.length : PLOT_WIDTH;
+  const labelStep = yearLabelStep(buckets.length);
+  const yearX = (year: number) => MARGIN.left + (year - firstYear) * slot;
+  const countY = (count: number) => MARGIN.top + PLOT_HEIGHT - (count / maxCount) * PLOT_HEIGHT;
+
+  const selectedBucket = buckets.find((bucket) => bucket.year === selectedYear) ?? null;
+  const selectedEvents = selectedYear
+    ? events.filter((event) => event.startYear <= selectedYear && event.endYear >= selectedYear)
+    : [];
+  const here = `${location.pathname}${location.search}`;
+
+  const selectYear = (year: number) => {
+    updateUrl({ year: year === selectedYear ? null : String(year) }, { replace: true });
+  };
+
+  const handleBarKey = (event: React.KeyboardEvent, year: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      selectYear(year);
+    }
+  };
+
+  return (
+    <section className="timeline-view">
+      <header className="timeline-view__header">
+        <div>
+          <h2>{data ? `${data.name}: Appearances by Year` : 'Appearance Timeline'}</h2>
+          <p>Each bar counts the issues that went on sale that year. Click a year to list its comics.</p>
+        </div>
+        {characterId && (
+          <Link to={`/detail/${characterId}`} className="timeline-view__link">
+            Back to character
+          </Link>
+        )}
+      </header>
+
+      {loading && (
+        <StatusBanner tone="loading">
+          {progress
+            ? `Loading comics… ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()}`
+            : 'Loading timeline...'}
+        </StatusBanner>
+      )}
+      {error && (
+        <ApiErrorNotice error={error} subject="timeline" onRetry={() => setReloadToken((prev) => prev + 1)} />
+      )}
+      {data && !loading && buckets.length === 0 && (
+        <StatusBanner tone="empty">No dated comics or events were found for this character.</StatusBanner>
+      )}
+
+      {data && buckets.length > 0 && (
+        <>
+          <p className="timeline-view__summary">
+            {datedCount.toLocaleString()} comics from {firstYear} to {buckets[buckets.length - 1].year}
+            {peak && peak.comics.length > 0 && `, peaking in ${peak.year} with ${peak.comics.length}`}.
+            {undated.length > 0 && ` ${undated.length.toLocaleString()} undated issues are left off the chart.`}
+          </p>
+
+          <svg
+            className="timeline-view__chart"
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            role="group"
+            aria-label={`Comics per year for ${data.name}`}
+          >
+            <g className="timeline-view__grid">
+              {Array.from(new Set([0, Math.round(maxCount / 2), maxCount])).map((count) => (
+                <g key={count}>
+                  <line x1={MARGIN.left} x2={CHART_WIDTH - MARGIN.right} y1={countY(count)} y2={countY(count)} />
+                  <text x={MARGIN.left - 8} y={countY(count) + 4}>
+                    {count}
+                  </text>
+                </g>
+              ))}
+            </g>
+
+            <g className="timeline-view__bars">
+              {buckets.map((bucket) => {
+                const count = bucket.comics.length;
+                const selected = bucket.year === selectedYear;
+                return (
+                  <g
+                    key={bucket.year}
+                    className={`timeline-view__bar${selected ? ' timeline-view__bar--selected' : ''}`}
+                    tabIndex={count > 0 ? 0 : -1}
+                    role="button"
+                    aria-pressed={selected}
+                    aria-label={describeYear(bucket)}
+                    onClick={() => selectYear(bucket.year)}
+                    onKeyDown={(event) => handleBarKey(event, bucket.year)}
+                  >
+                    <title>{describeYear(bucket)}</title>
+                    <rect
+                      className="timeline-view__hit"
+                      x={yearX(bucket.year)}
+                      y={MARGIN.top}
+                      width={slot}
+                      height={PLOT_HEIGHT}
+                    />
+                    <rect
+                      x={yearX(bucket.year) + Math.min(1, slot * 0.1)}
+                      y={countY(count)}
+                      width={Math.max(1, slot - Math.min(2, slot * 0.2))}
+                      height={MARGIN.top + PLOT_HEIGHT - countY(count)}
+                    />
+                  </g>
+                );
+              })}
+            </g>
+
+            <g className="timeline-view__axis">
+              <line
+                x1={MARGIN.left}
+                x2={CHART_WIDTH - MARGIN.right}
+                y1={MARGIN.top + PLOT_HEIGHT}
+                y2={MARGIN.top + PLOT_HEIGHT}
+              />
+              {buckets
+                .filter((bucket) => bucket.year % labelStep === 0)
+                .map((bucket) => (
+                  <text key={bucket.year} x={yearX(bucket.year) + slot / 2} y={MARGIN.top + PLOT_HEIGHT + 16}>
+                    {bucket.year}
+                  </text>
+                ))}
+            </g>
+
+            <g className="timeline-view__events">
+              {events.map((event, index) => {
+                // Alternate rows so markers for neighbouring events don't sit on top of each other.
+                const y = MARGIN.top + PLOT_HEIGHT + 32 + (index % 2) * 12;
+                const start = yearX(event.startYear) + slot / 2;
+                const end = yearX(event.endYear) + slot / 2;
+                return (
+                  <g key={event.id} className="timeline-view__event">
+                    <title>
+                      {event.title} ({event.startYear}
+                      {event.endYear !== event.startYear ? `–${event.endYear}` : ''})
+                    </title>
+                    {end > start && <line x1={start} x2={end} y1={y} y2={y} />}
+                    <path d={`M ${start} ${y - 5} L ${start + 5} ${y} L ${start} ${y + 5} L ${start - 5} ${y} Z`} />
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+
+          {data.totalComics > data.comics.length && (
+            <div className="timeline-view__more">
+              <span>
+                Charted the first {data.comics.length.toLocaleString()} of {data.totalComics.toLocaleString()} comics.
+              </span>
+              <button
+                type="button"
+                className="timeline-view__button"
+                onClick={() => setBudget({ characterId, max: comicBudget + COMIC_BUDGET_STEP })}
+                disabled={loading}
+              >
+                Load more comics
+              </button>
+            </div>
+          )}
+
+          <div className="timeline-view__details">
+            <section className="timeline-view__panel" aria-label="Selected year">
+              {selectedBucket ? (
+                <>
+                  <h3>{describeYear(selectedBucket)}</h3>
+                  {selectedEvents.length > 0 && (
+                    <p className="timeline-view__note">
+                      During {selectedEvents.map((event) => event.title).join(', ')}
+                    </p>
+                  )}
+                  <ResourceList
+                    items={selectedBucket.comics.map((comic) => ({
+                      key: String(comic.id),
+                      label: comic.title,
+                      to: `/comics/${comic.id}`,
+                      state: { from: here },
+                      note: formatIssueDate(comic),
+                      thumbnail: comic.thumbnail,
+                    }))}
+                    emptyText={`No comics loaded for ${selectedBucket.year}.`}
+                    withThumbnails
+                  />
+                </>
+              ) : (
+                <p className="timeline-view__note">Pick a year on the chart to see its comics.</p>
+              )}
+            </section>
+
+            <section className="timeline-view__panel" aria-label="Major events">
+              <h3>Major events</h3>
+              <ResourceList
+                items={events.map((event) => ({
+                  key: String(event.id),
+                  label: event.title,
+                  to: `/events/${event.id}`,
+                  state: { from: here },
+                  note:
+                    event.endYear !== event.startYear
+                      ? `${event.startYear}–${event.endYear}`
+                      : String(event.startYear),
+                }))}
+                emptyText="No dated events for this character."
+              />
+            </section>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,74 @@
+import {
+  ACTIVITY_SETTINGS_STORAGE_KEY,
+  loadActivitySettings,
+  saveActivitySettings,
+} from '../context/activitySettingsStorage';
+import {
+  classifyActivity,
+  defaultActivitySettings,
+  describeTier,
+  scoreActivity,
+  type ActivitySettings,
+} from './activity';
+
+const counts = { comics: 120, events: 8, series: 30, stories: 200 };
+
+test('scores the weighted formula and classifies with the first matching tier', () => {
+  const settings: ActivitySettings = {
+    weights: { comics: 1, events: 10, series: 0, stories: 0.5 },
+    tiers: [
+      { id: 'busy', name: 'Busy', metric: 'score', min: 300, max: null },
+      { id: 'events', name: 'Event regulars', metric: 'events', min: 5, max: null },
+    ],
+  };
+
+  expect(scoreActivity(counts, settings.weights)).toBe(300);
+  expect(classifyActivity(counts, settings)?.id).toBe('busy');
+  expect(classifyActivity({ ...counts, stories: 0 }, settings)?.id).toBe('events');
+  expect(classifyActivity({ ...counts, stories: 0, events: 1 }, settings)).toBeNull();
+});
+
+test('leaves no gap between adjacent score tiers for fractional scores', () => {
+  const settings: ActivitySettings = {
+    weights: { comics: 1, events: 0, series: 0, stories: 0.5 },
+    tiers: [
+      { id: 'high', name: 'High', metric: 'score', min: 200, max: null },
+      { id: 'low', name: 'Low', metric: 'score', min: 0, max: 200 },
+    ],
+  };
+  const fractional = { comics: 199, events: 0, series: 0, stories: 1 };
+
+  expect(scoreActivity(fractional, settings.weights)).toBe(199.5);
+  expect(classifyActivity(fractional, settings)?.id).toBe('low');
+  expect(classifyActivity({ ...fractional, stories: 2 }, settings)?.id).toBe('high');
+  expect(describeTier(settings.tiers[1])).toBe('Low (0 to under 200 points)');
+});
+
+test('keeps the default comic cutoffs and labels', () => {
+  const settings = defaultActivitySettings();
+
+  expect(classifyActivity({ ...counts, comics: 1000 }, settings)?.name).toBe('Legends');
+  expect(classifyActivity({ ...counts, comics: 999 }, settings)?.name).toBe('Veterans');
+  expect(classifyActivity(counts, settings)?.name).toBe('Rising Heroes');
+  expect(settings.tiers.map(describeTier)).toEqual([
+    'Legends (1,000+ comics)',
+    'Veterans (200–999 comics)',
+    'Rising Heroes (0–199 comics)',
+  ]);
+});
+
+test('persists settings and drops malformed tiers on load', () => {
+  const storage = window.localStorage;
+  const settings = defaultActivitySettings();
+  const odd = { id: 'odd', name: 'Odd', metric: 'score' as const, min: -5, max: null };
+  saveActivitySettings({ ...settings, tiers: [...settings.tiers, odd] }, storage);
+
+  const raw = JSON.parse(storage.getItem(ACTIVITY_SETTINGS_STORAGE_KEY) ?? '{}');
+  storage.setItem(ACTIVITY_SETTINGS_STORAGE_KEY, JSON.stringify({ ...raw, tiers: [...raw.tiers, { name: 'No id' }] }));
+
+  const loaded = loadActivitySettings(storage);
+  expect(loaded.tiers.map((tier) => tier.id)).toEqual(['legend', 'veteran', 'rookie', 'odd']);
+  expect(loaded.tiers[3].min).toBe(0);
+  expect(loaded.weights).toEqual(settings.weights);
+  storage.clear();
+});
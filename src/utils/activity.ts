@@ -0,0 +1,76 @@
+import type { MarvelCharacter } from '../api/marvel';
+
+export type ActivityCountKey = 'comics' | 'events' | 'series' | 'stories';
+
+export type ActivityCounts = Record<ActivityCountKey, number>;
+
+// `score` is the weighted formula; the rest read one appearance count directly.
+export type ActivityMetric = ActivityCountKey | 'score';
+
+export interface ActivityTier {
+  id: string;
+  name: string;
+  metric: ActivityMetric;
+  min: number;
+  // Exclusive, so a tier ending where the next one starts leaves no gap for fractional scores. Null leaves the tier
+  // open-ended.
+  max: number | null;
+}
+
+export interface ActivitySettings {
+  // Checked in order, so the first matching tier wins.
+  tiers: ActivityTier[];
+  weights: ActivityCounts;
+}
+
+export const ACTIVITY_COUNT_KEYS: ActivityCountKey[] = ['comics', 'events', 'series', 'stories'];
+
+export const METRIC_LABELS: Record<ActivityMetric, string> = {
+  comics: 'comics',
+  events: 'events',
+  series: 'series',
+  stories: 'stories',
+  score: 'points',
+};
+
+export const defaultActivitySettings = (): ActivitySettings => ({
+  tiers: [
+    { id: 'legend', name: 'Legends', metric: 'comics', min: 1000, max: null },
+    { id: 'veteran', name: 'Veterans', metric: 'comics', min: 200, max: 1000 },
+    { id: 'rookie', name: 'Rising Heroes', metric: 'comics', min: 0, max: 200 },
+  ],
+  weights: { comics: 1, events: 5, series: 2, stories: 0.25 },
+});
+
+export const activityCounts = (character: MarvelCharacter): ActivityCounts => ({
+  comics: character.comics.available,
+  events: character.events.available,
+  series: character.series.available,
+  stories: character.stories.available,
+});
+
+export const scoreActivity = (counts: ActivityCounts, weights: ActivityCounts): number =>
+  ACTIVITY_COUNT_KEYS.reduce((total, key) => total + counts[key] * weights[key], 0);
+
+export const metricValue = (counts: ActivityCounts, metric: ActivityMetric, weights: ActivityCounts): number =>
+  metric === 'score' ? scoreActivity(counts, weights) : counts[metric];
+
+export const classifyActivity = (counts: ActivityCounts, settings: ActivitySettings): ActivityTier | null =>
+  settings.tiers.find((tier) => {
+    const value = metricValue(counts, tier.metric, settings.weights);
+    return value >= tier.min && (tier.max === null || value < tier.max);
+  }) ?? null;
+
+export const describeTierRange = (tier: ActivityTier): string => {
+  const unit = METRIC_LABELS[tier.metric];
+  if (tier.max === null) {
+    return `${tier.min.toLocaleString()}+ ${unit}`;
+  }
+  if (tier.metric === 'score') {
+    return `${tier.min.toLocaleString()} to under ${tier.max.toLocaleString()} ${unit}`;
+  }
+  // Counts are whole numbers, so the last one in range reads better than the exclusive bound.
+  return `${tier.min.toLocaleString()}–${(Math.ceil(tier.max) - 1).toLocaleString()} ${unit}`;
+};
+
+export const describeTier = (tier: ActivityTier): string => `${tier.name} (${describeTierRange(tier)})`;
@@ -0,0 +1,81 @@
+import type { MarvelCharacter } from '../api/marvel';
+import characters from '../api/fixtures/characters.json';
+import {
+  CHARACTER_INDEX_STORAGE_KEY,
+  clearCharacterIndex,
+  getCharacterIndexSize,
+  indexCharacters,
+  searchCharacterIndex,
+  toIndexedCharacter,
+} from './characterIndex';
+
+beforeEach(() => {
+  clearCharacterIndex();
+  indexCharacters(characters as MarvelCharacter[]);
+});
+
+const names = (query: string) => searchCharacterIndex(query).map((hit) => hit.character.name);
+
+test('ranks name matches first and explains matches found elsewhere', () => {
+  const [byName, byBio] = searchCharacterIndex('parker');
+
+  expect(byName.character.name).toBe('Spider-Girl (May Parker)');
+  expect(byName.nameRanges).toEqual([[17, 23]]);
+  expect(byBio.character.name).toBe('Spider-Man');
+  expect(byBio.detail?.field).toBe('description');
+  const [[start, end]] = byBio.detail?.ranges ?? [[0, 0]];
+  expect(byBio.detail?.text.slice(start, end)).toBe('Parker');
+});
+
+test('tolerates typos, including in a word that is still being typed', () => {
+  expect(names('wolverni')[0]).toBe('Wolverine');
+  expect(names('captian')[0]).toBe('Captain America');
+  expect(names('strnge')).toContain('Doctor Strange');
+});
+
+test('requires every term to match somewhere', () => {
+  expect(names('uncanny storm')).toEqual(['Storm']);
+  expect(names('thor zzzz')).toEqual([]);
+});
+
+test('persists the index so it survives a reload', () => {
+  clearCharacterIndex();
+  jest.useFakeTimers();
+  try {
+    indexCharacters(characters as MarvelCharacter[]);
+    jest.runOnlyPendingTimers();
+  } finally {
+    jest.useRealTimers();
+  }
+
+  const stored = JSON.parse(window.localStorage.getItem(CHARACTER_INDEX_STORAGE_KEY) ?? '{}');
+  expect(stored.entries).toHaveLength(characters.length);
+  expect(getCharacterIndexSize()).toBe(characters.length);
+});
+
+test('keeps saving the most recently seen characters once the full index no longer fits', () => {
+  clearCharacterIndex();
+  const fullSize = JSON.stringify({ version: 1, entries: (characters as MarvelCharacter[]).map(toIndexedCharacter) })
+    .length;
+  const setItem = Storage.prototype.setItem;
+  const spy = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+    if (key === CHARACTER_INDEX_STORAGE_KEY && value.length > fullSize / 2) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    setItem.call(this, key, value);
+  });
+  jest.useFakeTimers();
+  try {
+    indexCharacters(characters as MarvelCharacter[]);
+    jest.runOnlyPendingTimers();
+  } finally {
+    jest.useRealTimers();
+    spy.mockRestore();
+  }
+
+  const stored = JSON.parse(window.localStorage.getItem(CHARACTER_INDEX_STORAGE_KEY) ?? '{}');
+  expect(stored.entries.length).toBeGreaterThan(0);
+  expect(stored.entries.length).toBeLessThan(characters.length);
+  expect(stored.entries[stored.entries.length - 1].id).toBe(characters[characters.length - 1].id);
+  expect(getCharacterIndexSize()).toBe(characters.length);
+});
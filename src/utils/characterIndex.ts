@@ -0,0 +1,376 @@
+import type { MarvelCharacter, MarvelImage, MarvelResourceSummary, MarvelUrl } from '../api/marvel';
+import { getLocalStorage, readStoredJson, writeStoredJson } from './storage';
+
+export type IndexedRef = {
+  id: number;
+  name: string;
+};
+
+export type IndexedCharacter = {
+  id: number;
+  name: string;
+  description: string;
+  thumbnail: MarvelImage | null;
+  modified: string;
+  comics: number;
+  events: number;
+  series: number;
+  stories: number;
+  // The API lists at most 20 of each, so these are samples rather than full appearance lists.
+  seriesRefs: IndexedRef[];
+  eventRefs: IndexedRef[];
+  urls: MarvelUrl[];
+};
+
+// Half-open [start, end) character offsets into the matched text.
+export type MatchRange = [number, number];
+
+export type SearchField = 'name' | 'description' | 'series' | 'events';
+
+export type FieldMatch = {
+  field: SearchField;
+  text: string;
+  ranges: MatchRange[];
+};
+
+export type CharacterHit = {
+  character: IndexedCharacter;
+  score: number;
+  nameRanges: MatchRange[];
+  // The strongest match outside the name, so results can say why a character turned up.
+  detail: FieldMatch | null;
+};
+
+type StoredIndex = {
+  version: 1;
+  entries: IndexedCharacter[];
+};
+
+type Word = { text: string; start: number };
+
+type FieldWords = { field: SearchField; text: string; words: Word[] };
+
+export const CHARACTER_INDEX_STORAGE_KEY = 'marvel-explorer:character-index';
+const CURRENT_VERSION = 1;
+const MAX_ENTRIES = 3000;
+const DESCRIPTION_LIMIT = 400;
+const SAVE_DELAY_MS = 1000;
+const EXCERPT_RADIUS = 40;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  series: 1.5,
+  events: 1.5,
+  description: 1,
+};
+
+let entries: Map<number, IndexedCharacter> | null = null;
+let saveTimer: number | null = null;
+// Searches run on every keystroke, so each entry's words are split once, when it joins the index.
+let fieldWords = new WeakMap<IndexedCharacter, FieldWords[]>();
+
+const loadEntries = (): Map<number, IndexedCharacter> => {
+  if (entries) {
+    return entries;
+  }
+
+  entries = new Map();
+  const parsed = readStoredJson(CHARACTER_INDEX_STORAGE_KEY) as Partial<StoredIndex> | null;
+  // A corrupt index, or one from another version, is rebuilt from whatever the app loads next.
+  if (parsed?.version === CURRENT_VERSION && Array.isArray(parsed.entries)) {
+    parsed.entries
+      .filter((entry) => typeof entry?.id === 'number' && typeof entry?.name === 'string')
+      .forEach((entry) => {
+        entries?.set(entry.id, entry);
+        wordsOf(entry);
+      });
+  }
+  return entries;
+};
+
+// When the whole index doesn't fit in storage, the least recently seen quarter is left out until the rest does.
+// The in-memory index keeps everything for this visit either way.
+const saveEntries = () => {
+  const storage = getLocalStorage();
+  let saved = Array.from(loadEntries().values());
+  while (saved.length > 0) {
+    const stored: StoredIndex = { version: CURRENT_VERSION, entries: saved };
+    if (!storage || writeStoredJson(CHARACTER_INDEX_STORAGE_KEY, stored, storage)) {
+      return;
+    }
+    saved = saved.slice(Math.ceil(saved.length / 4));
+  }
+};
+
+const scheduleSave = () => {
+  if (saveTimer !== null || typeof window === 'undefined') {
+    return;
+  }
+
+  saveTimer = window.setTimeout(() => {
+    saveTimer = null;
+    saveEntries();
+  }, SAVE_DELAY_MS);
+};
+
+// Parsed here rather than with the api helper, since api/marvel already imports this module.
+const toRefs = (items: MarvelResourceSummary[]): IndexedRef[] =>
+  items
+    .map((item) => ({ id: Number(item.resourceURI.match(/\/(\d+)\/?$/)?.[1]), name: item.name }))
+    .filter((ref) => Number.isInteger(ref.id) && Boolean(ref.name));
+
+export const toIndexedCharacter = (character: MarvelCharacter): IndexedCharacter => ({
+  id: character.id,
+  name: character.name,
+  description: (character.description ?? '').trim().slice(0, DESCRIPTION_LIMIT),
+  thumbnail: character.thumbnail,
+  modified: character.modified ?? '',
+  comics: character.comics.available,
+  events: character.events.available,
+  series: character.series.available,
+  stories: character.stories.available,
+  seriesRefs: toRefs(character.series.items),
+  eventRefs: toRefs(character.events.items),
+  urls: character.urls ?? [],
+});
+
+// Every character the app loads is added here, so the index grows as people browse.
+export const indexCharacters = (characters: MarvelCharacter[]) => {
+  if (characters.length === 0) {
+    return;
+  }
+
+  const index = loadEntries();
+  characters.forEach((character) => {
+    const indexed = toIndexedCharacter(character);
+    index.delete(character.id);
+    index.set(character.id, indexed);
+    wordsOf(indexed);
+  });
+
+  // Map iteration follows insertion order, so the least recently seen characters are dropped first.
+  const overflow = index.size - MAX_ENTRIES;
+  if (overflow > 0) {
+    Array.from(index.keys())
+      .slice(0, overflow)
+      .forEach((id) => index.delete(id));
+  }
+
+  scheduleSave();
+};
+
+export const getIndexedCharacter = (id: number): IndexedCharacter | null => loadEntries().get(id) ?? null;
+
+export const getCharacterIndexSize = (): number => loadEntries().size;
+
+export const getIndexedCharacters = (): IndexedCharacter[] => Array.from(loadEntries().values());
+
+export const clearCharacterIndex = () => {
+  entries = new Map();
+  fieldWords = new WeakMap();
+  if (saveTimer !== null) {
+    window.clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  try {
+    getLocalStorage()?.removeItem(CHARACTER_INDEX_STORAGE_KEY);
+  } catch (err) {
+    // Nothing stored to clear.
+  }
+};
+
+const splitWords = (text: string): Word[] => {
+  const words: Word[] = [];
+  const pattern = /[a-z0-9]+/g;
+  const lower = text.toLowerCase();
+  let match = pattern.exec(lower);
+  while (match) {
+    words.push({ text: match[0], start: match.index });
+    match = pattern.exec(lower);
+  }
+  return words;
+};
+
+// Optimal string alignment distance, giving up once every path exceeds `max`.
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+type TermMatch = { score: number; range: MatchRange };
+
+// Scores one query term against one word: exact, prefix, infix, then typo-tolerant matches.
+const matchWord = (term: string, word: Word): TermMatch | null => {
+  const { text, start } = word;
+  if (text === term) {
+    return { score: 1, range: [start, start + text.length] };
+  }
+  if (text.startsWith(term)) {
+    return { score: 0.85, range: [start, start + term.length] };
+  }
+  if (term.length >= 3) {
+    const at = text.indexOf(term);
+    if (at > 0) {
+      return { score: 0.6, range: [start + at, start + at + term.length] };
+    }
+  }
+  if (term.length >= 4) {
+    const allowed = term.length >= 7 ? 2 : 1;
+    const whole = editDistance(term, text, allowed);
+    if (whole <= allowed) {
+      return { score: 0.55 - 0.1 * whole, range: [start, start + text.length] };
+    }
+    // Typos in a word that is still being typed: compare against a prefix of the same length.
+    const prefix = editDistance(term, text.slice(0, term.length), allowed);
+    if (prefix <= allowed && text.length > term.length) {
+      return { score: 0.4 - 0.1 * prefix, range: [start, start + term.length] };
+    }
+  }
+  return null;
+};
+
+const fieldTexts = (character: IndexedCharacter): { field: SearchField; text: string }[] => [
+  { field: 'name', text: character.name },
+  ...character.seriesRefs.map((ref) => ({ field: 'series' as const, text: ref.name })),
+  ...character.eventRefs.map((ref) => ({ field: 'events' as const, text: ref.name })),
+  { field: 'description', text: character.description },
+];
+
+// Characters matched from outside the index, such as fresh server results, are split on demand.
+const wordsOf = (character: IndexedCharacter): FieldWords[] => {
+  const cached = fieldWords.get(character);
+  if (cached) {
+    return cached;
+  }
+
+  const words = fieldTexts(character).map((entry) => ({ ...entry, words: splitWords(entry.text) }));
+  fieldWords.set(character, words);
+  return words;
+};
+
+const excerpt = (match: FieldMatch): FieldMatch => {
+  if (match.field !== 'description' || match.text.length <= EXCERPT_RADIUS * 3) {
+    return match;
+  }
+
+  const first = match.ranges[0]?.[0] ?? 0;
+  const start = Math.max(0, first - EXCERPT_RADIUS);
+  const end = Math.min(match.text.length, first + EXCERPT_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    field: match.field,
+    text: `${prefix}${match.text.slice(start, end)}${end < match.text.length ? '…' : ''}`,
+    ranges: match.ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift] as MatchRange),
+  };
+};
+
+export const queryTerms = (query: string): string[] => splitWords(query).map((word) => word.text);
+
+// Every term has to match somewhere; the character scores the sum of each term's best weighted match.
+export const matchCharacter = (character: IndexedCharacter, terms: string[]): CharacterHit | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const texts = wordsOf(character);
+  const nameRanges: MatchRange[] = [];
+  const details = new Map<string, FieldMatch & { score: number }>();
+  let score = 0;
+
+  for (const term of terms) {
+    let best: { score: number; range: MatchRange; textIndex: number } | null = null;
+    for (let textIndex = 0; textIndex < texts.length; textIndex += 1) {
+      const entry = texts[textIndex];
+      for (const word of entry.words) {
+        const match = matchWord(term, word);
+        const weighted = match ? match.score * FIELD_WEIGHTS[entry.field] : 0;
+        if (match && (!best || weighted > best.score)) {
+          best = { score: weighted, range: match.range, textIndex };
+        }
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const { score: termScore, range, textIndex } = best;
+    score += termScore;
+    const { field, text } = texts[textIndex];
+    if (field === 'name') {
+      nameRanges.push(range);
+    } else {
+      const key = `${field}:${textIndex}`;
+      const existing = details.get(key);
+      details.set(key, {
+        field,
+        text,
+        ranges: [...(existing?.ranges ?? []), range],
+        score: (existing?.score ?? 0) + termScore,
+      });
+    }
+  }
+
+  const query = terms.join(' ');
+  if (character.name.toLowerCase().startsWith(query)) {
+    score += 1;
+  }
+
+  const strongest = Array.from(details.values()).sort((a, b) => b.score - a.score)[0];
+  return {
+    character,
+    score,
+    nameRanges,
+    detail: strongest ? excerpt({ field: strongest.field, text: strongest.text, ranges: strongest.ranges }) : null,
+  };
+};
+
+export const compareHits = (a: CharacterHit, b: CharacterHit): number =>
+  b.score - a.score ||
+  b.character.comics - a.character.comics ||
+  a.character.name.localeCompare(b.character.name);
+
+export const searchCharacterIndex = (query: string, limit = 50): CharacterHit[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const hits: CharacterHit[] = [];
+  loadEntries().forEach((character) => {
+    const hit = matchCharacter(character, terms);
+    if (hit) {
+      hits.push(hit);
+    }
+  });
+
+  return hits.sort(compareHits).slice(0, limit);
+};
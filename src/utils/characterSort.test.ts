@@ -0,0 +1,37 @@
+import {
+  compareBySortKeys,
+  describeSortKeys,
+  isServerSortable,
+  parseSortKeys,
+  serializeSortKeys,
+  toOrderBy,
+} from './characterSort';
+
+const character = (name: string, comics: number, events: number, modified = '2020-01-01T00:00:00-0400') => ({
+  name,
+  modified,
+  activity: { comics, events, series: 0, stories: 0 },
+});
+
+test('parses sort keys from the URL, dropping unknown and repeated fields', () => {
+  const keys = parseSortKeys('comics-desc,bogus-asc,comics-asc,name-asc,events-desc,modified-desc');
+
+  expect(serializeSortKeys(keys)).toBe('comics-desc,name-asc,events-desc');
+  expect(describeSortKeys(keys)).toBe('Most Comics, then Name A → Z, then Most Events');
+  expect(parseSortKeys(null)).toEqual([{ field: 'name', direction: 'asc' }]);
+});
+
+test('orders on the server only when every key is a server field', () => {
+  expect(isServerSortable(parseSortKeys('modified-desc,name-asc'))).toBe(true);
+  expect(toOrderBy(parseSortKeys('modified-desc,name-asc'))).toBe('-modified,name');
+  expect(isServerSortable(parseSortKeys('name-asc,comics-desc'))).toBe(false);
+});
+
+test('breaks ties with the secondary keys in order', () => {
+  const characters = [character('Storm', 838, 24), character('Blade', 40, 0), character('Angel', 40, 0)];
+  const sorted = [...characters].sort(
+    compareBySortKeys(parseSortKeys('comics-desc,events-asc,name-desc'), (counts) => counts.comics)
+  );
+
+  expect(sorted.map((entry) => entry.name)).toEqual(['Storm', 'Blade', 'Angel']);
+});
@@ -0,0 +1,127 @@
+import type { CharacterOrderBy, CharacterOrderByList } from '../api/marvel';
+import type { ActivityCounts } from './activity';
+
+export type SortField = 'name' | 'modified' | 'comics' | 'events' | 'series' | 'stories' | 'score';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export interface SortableCharacter {
+  name: string;
+  modified: string;
+  activity: ActivityCounts;
+}
+
+export interface SortOption {
+  value: string;
+  label: string;
+  field: SortField;
+}
+
+// The primary key plus up to two tie-breakers.
+export const MAX_SORT_KEYS = 3;
+
+export const DEFAULT_SORT = 'name-asc';
+
+// Upper bound on matches loaded for a count-based sort; broader searches sort only the first ones.
+export const FULL_SORT_LIMIT = 1000;
+
+const SORT_LABELS: Record<SortField, Record<SortDirection, string>> = {
+  name: { asc: 'Name A → Z', desc: 'Name Z → A' },
+  modified: { desc: 'Recently Modified', asc: 'Least Recently Modified' },
+  comics: { desc: 'Most Comics', asc: 'Fewest Comics' },
+  events: { desc: 'Most Events', asc: 'Fewest Events' },
+  series: { desc: 'Most Series', asc: 'Fewest Series' },
+  stories: { desc: 'Most Stories', asc: 'Fewest Stories' },
+  score: { desc: 'Highest Activity Score', asc: 'Lowest Activity Score' },
+};
+
+// Only these map onto the API's `orderBy`; every other field needs the full result set on the client.
+const SERVER_FIELDS: Partial<Record<SortField, CharacterOrderBy>> = {
+  name: 'name',
+  modified: 'modified',
+};
+
+const SORT_FIELDS = Object.keys(SORT_LABELS) as SortField[];
+
+export const toSortValue = (key: SortKey): string => `${key.field}-${key.direction}`;
+
+export const sortOptions: SortOption[] = SORT_FIELDS.flatMap((field) =>
+  (Object.keys(SORT_LABELS[field]) as SortDirection[]).map((direction) => ({
+    value: toSortValue({ field, direction }),
+    label: SORT_LABELS[field][direction],
+    field,
+  }))
+);
+
+const parseKey = (value: string): SortKey | null => {
+  const [field, direction] = value.trim().split('-');
+  if (!SORT_FIELDS.includes(field as SortField) || (direction !== 'asc' && direction !== 'desc')) {
+    return null;
+  }
+  return { field: field as SortField, direction };
+};
+
+// Reads the comma-separated `sort` URL value, most significant key first. A field only counts once.
+export const parseSortKeys = (value: string | null): SortKey[] => {
+  const keys = (value ?? '')
+    .split(',')
+    .map(parseKey)
+    .filter((key): key is SortKey => key !== null)
+    .filter((key, index, list) => list.findIndex((other) => other.field === key.field) === index)
+    .slice(0, MAX_SORT_KEYS);
+
+  return keys.length > 0 ? keys : [parseKey(DEFAULT_SORT) as SortKey];
+};
+
+export const serializeSortKeys = (keys: SortKey[]): string => keys.map(toSortValue).join(',');
+
+export const describeSortKey = (key: SortKey): string => SORT_LABELS[key.field][key.direction];
+
+export const describeSortKeys = (keys: SortKey[]): string => keys.map(describeSortKey).join(', then ');
+
+export const isServerSortable = (keys: SortKey[]): boolean => keys.every((key) => SERVER_FIELDS[key.field]);
+
+// Keys the API can't order by are skipped, so check `isServerSortable` first.
+export const toOrderBy = (keys: SortKey[]): CharacterOrderByList =>
+  keys
+    .flatMap((key) => {
+      const field = SERVER_FIELDS[key.field];
+      return field ? [`${key.direction === 'desc' ? '-' : ''}${field}`] : [];
+    })
+    .join(',') as CharacterOrderByList;
+
+const sortValue = (character: SortableCharacter, field: SortField, score: (counts: ActivityCounts) => number) => {
+  switch (field) {
+    case 'name':
+      return character.name;
+    case 'modified':
+      return new Date(character.modified).getTime() || 0;
+    case 'score':
+      return score(character.activity);
+    default:
+      return character.activity[field];
+  }
+};
+
+// `score` applies the activity weights from the settings page.
+export const compareBySortKeys =
+  (keys: SortKey[], score: (counts: ActivityCounts) => number) =>
+  (a: SortableCharacter, b: SortableCharacter): number => {
+    for (const { field, direction } of keys) {
+      const left = sortValue(a, field, score);
+      const right = sortValue(b, field, score);
+      const order =
+        typeof left === 'string' && typeof right === 'string'
+          ? left.localeCompare(right)
+          : Number(left) - Number(right);
+      if (order !== 0) {
+        return direction === 'desc' ? -order : order;
+      }
+    }
+    return 0;
+  };
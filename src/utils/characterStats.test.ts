@@ -0,0 +1,24 @@
+import type { MarvelCharacter } from '../api/marvel';
+import characters from '../api/fixtures/characters.json';
+import { defaultActivitySettings } from './activity';
+import { toIndexedCharacter } from './characterIndex';
+import { binCounts, computeCharacterStats } from './characterStats';
+
+const indexed = (characters as MarvelCharacter[]).map(toIndexedCharacter);
+
+test('buckets counts by lower bound and labels the ranges', () => {
+  const bins = binCounts(indexed.slice(0, 3), (character) => character.comics, [0, 100, 1000]);
+
+  expect(bins.map((bin) => bin.label)).toEqual(['0–99', '100–999', '1,000+']);
+  expect(bins.reduce((sum, bin) => sum + bin.ids.length, 0)).toBe(3);
+});
+
+test('aggregates tiers, shared series and missing data over the corpus', () => {
+  const stats = computeCharacterStats(indexed, defaultActivitySettings());
+
+  expect(stats.total).toBe(indexed.length);
+  expect(stats.tiers.reduce((sum, tier) => sum + tier.count, 0)).toBe(indexed.length);
+  expect(stats.topSeries[0].count).toBeGreaterThanOrEqual(stats.topSeries[1].count);
+  expect(stats.noDescription.map((character) => character.name)).toContain('Black Widow');
+  expect(stats.recentlyModified.length).toBeLessThanOrEqual(10);
+});
@@ -0,0 +1,113 @@
+import { classifyActivity, describeTier, type ActivitySettings } from './activity';
+import type { IndexedCharacter, IndexedRef } from './characterIndex';
+import { hasImage } from './marvelImages';
+
+// `max` is the last count in range, or null when the range is open-ended.
+export interface CountRange {
+  min: number;
+  max: number | null;
+}
+
+export interface CountBin extends CountRange {
+  label: string;
+  ids: number[];
+}
+
+export interface TierCount {
+  tier: string;
+  label: string;
+  count: number;
+}
+
+export interface SharedResource extends IndexedRef {
+  count: number;
+}
+
+export interface CharacterStats {
+  total: number;
+  comicBins: CountBin[];
+  eventBins: CountBin[];
+  tiers: TierCount[];
+  topSeries: SharedResource[];
+  topEvents: SharedResource[];
+  noDescription: IndexedCharacter[];
+  noImage: IndexedCharacter[];
+  recentlyModified: IndexedCharacter[];
+}
+
+// Lower bounds of each bucket; counts are long-tailed, so the buckets widen as they go.
+export const COMIC_BIN_EDGES = [0, 1, 10, 50, 100, 200, 500, 1000, 2000];
+export const EVENT_BIN_EDGES = [0, 1, 2, 5, 10, 20, 50];
+const TOP_LIMIT = 10;
+const RECENT_LIMIT = 10;
+
+const binLabel = (min: number, next: number | undefined) => {
+  if (next === undefined) {
+    return `${min.toLocaleString()}+`;
+  }
+  return next - 1 === min ? min.toLocaleString() : `${min.toLocaleString()}–${(next - 1).toLocaleString()}`;
+};
+
+export const binCounts = (
+  characters: IndexedCharacter[],
+  count: (character: IndexedCharacter) => number,
+  edges: number[]
+): CountBin[] => {
+  const bins = edges.map((min, index) => {
+    const next = edges[index + 1];
+    return { label: binLabel(min, next), min, max: next === undefined ? null : next - 1, ids: [] as number[] };
+  });
+  characters.forEach((character) => {
+    const value = count(character);
+    const bin = [...bins].reverse().find((candidate) => value >= candidate.min);
+    bin?.ids.push(character.id);
+  });
+  return bins;
+};
+
+const countShared = (characters: IndexedCharacter[], refs: (character: IndexedCharacter) => IndexedRef[]) => {
+  const counts = new Map<number, SharedResource>();
+  characters.forEach((character) => {
+    refs(character).forEach((ref) => {
+      const entry = counts.get(ref.id);
+      counts.set(ref.id, { id: ref.id, name: ref.name, count: (entry?.count ?? 0) + 1 });
+    });
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_LIMIT);
+};
+
+// Marvel uses placeholder dates such as `-0001-11-30` for records that were never edited.
+export const modifiedTime = (character: IndexedCharacter): number => {
+  const time = /^\d{4}-/.test(character.modified) ? new Date(character.modified).getTime() : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const countTiers = (characters: IndexedCharacter[], settings: ActivitySettings): TierCount[] => {
+  const counts = new Map<string, number>();
+  characters.forEach((character) => {
+    const tier = classifyActivity(character, settings);
+    if (tier) {
+      counts.set(tier.id, (counts.get(tier.id) ?? 0) + 1);
+    }
+  });
+
+  return settings.tiers.map((tier) => ({ tier: tier.id, label: describeTier(tier), count: counts.get(tier.id) ?? 0 }));
+};
+
+export const computeCharacterStats = (characters: IndexedCharacter[], settings: ActivitySettings): CharacterStats => ({
+  total: characters.length,
+  comicBins: binCounts(characters, (character) => character.comics, COMIC_BIN_EDGES),
+  eventBins: binCounts(characters, (character) => character.events, EVENT_BIN_EDGES),
+  tiers: countTiers(characters, settings),
+  topSeries: countShared(characters, (character) => character.seriesRefs),
+  topEvents: countShared(characters, (character) => character.eventRefs),
+  noDescription: characters.filter((character) => !character.description),
+  noImage: characters.filter((character) => !hasImage(character.thumbnail)),
+  recentlyModified: characters
+    .filter((character) => modifiedTime(character) > 0)
+    .sort((a, b) => modifiedTime(b) - modifiedTime(a))
+    .slice(0, RECENT_LIMIT),
+});
@@ -0,0 +1,30 @@
+import { marvelAttribution, toCsv, toJson, type ExportableCharacter } from './exportCharacters';
+
+const storm: ExportableCharacter = {
+  id: 1009629,
+  name: 'Storm, "Ororo" Munroe',
+  comics: 936,
+  events: 28,
+  series: ['Uncanny X-Men (1963 - 2011)', 'X-Men (1991 - 2001)'],
+  thumbnailUrl: 'https://example.com/storm.jpg',
+  urls: [{ type: 'detail', url: 'https://marvel.com/characters/storm' }],
+};
+
+test('writes quoted CSV rows followed by the Marvel attribution', () => {
+  const lines = toCsv([storm]).split('\r\n');
+
+  expect(lines[0]).toBe('id,name,comics,events,series,thumbnail_url,marvel_urls');
+  expect(lines[1]).toBe(
+    '1009629,"Storm, ""Ororo"" Munroe",936,28,Uncanny X-Men (1963 - 2011); X-Men (1991 - 2001),' +
+      'https://example.com/storm.jpg,detail: https://marvel.com/characters/storm'
+  );
+  expect(lines[lines.length - 1]).toBe(marvelAttribution());
+});
+
+test('wraps JSON exports with the attribution and a count', () => {
+  const parsed = JSON.parse(toJson([storm]));
+
+  expect(parsed.attribution).toBe(marvelAttribution());
+  expect(parsed.count).toBe(1);
+  expect(parsed.characters[0].urls[0].type).toBe('detail');
+});
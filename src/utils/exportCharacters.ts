@@ -0,0 +1,120 @@
+import type { MarvelUrl } from '../api/marvel';
+
+export interface ExportableCharacter {
+  id: number;
+  name: string;
+  comics: number;
+  events: number;
+  series: string[];
+  thumbnailUrl: string;
+  urls: MarvelUrl[];
+}
+
+// The API terms ask for this line wherever Marvel data is shown or redistributed.
+export const marvelAttribution = () => `Data provided by Marvel. © ${new Date().getFullYear()} MARVEL`;
+
+const CSV_COLUMNS = ['id', 'name', 'comics', 'events', 'series', 'thumbnail_url', 'marvel_urls'];
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const toCsv = (characters: ExportableCharacter[]): string => {
+  const rows = characters.map((character) =>
+    [
+      character.id,
+      character.name,
+      character.comics,
+      character.events,
+      character.series.join('; '),
+      character.thumbnailUrl,
+      character.urls.map((link) => `${link.type}: ${link.url}`).join('; '),
+    ]
+      .map(escapeCsv)
+      .join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows, '', escapeCsv(marvelAttribution())].join('\r\n');
+};
+
+export const toJson = (characters: ExportableCharacter[]): string =>
+  JSON.stringify(
+    {
+      attribution: marvelAttribution(),
+      exportedAt: new Date().toISOString(),
+      count: characters.length,
+      characters,
+    },
+    null,
+    2
+  );
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 16mm; font-family: system-ui, sans-serif; color: #111827; }
+  h1 { margin: 0 0 8mm; font-size: 18pt; }
+  .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6mm; }
+  .card { border: 1px solid #9ca3af; border-radius: 3mm; overflow: hidden; break-inside: avoid; }
+  .card img { display: block; width: 100%; height: 48mm; object-fit: cover; }
+  .card div { padding: 3mm; font-size: 9pt; }
+  .card h2 { margin: 0 0 2mm; font-size: 12pt; }
+  .card p { margin: 0 0 1mm; }
+  footer { margin-top: 8mm; font-size: 8pt; color: #4b5563; }
+  @page { size: A4; margin: 0; }
+`;
+
+const renderCard = (character: ExportableCharacter): string => `
+  <article class="card">
+    <img src="${escapeHtml(character.thumbnailUrl)}" alt="" />
+    <div>
+      <h2>${escapeHtml(character.name)}</h2>
+      <p>Comics: ${character.comics.toLocaleString()} · Events: ${character.events.toLocaleString()}</p>
+      ${character.series.length > 0 ? `<p>${escapeHtml(character.series.slice(0, 3).join(', '))}</p>` : ''}
+    </div>
+  </article>`;
+
+// Opens the card sheet in its own window so the app's dark theme never reaches the printer.
+export const openPrintSheet = (title: string, characters: ExportableCharacter[]): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return false;
+  }
+
+  printWindow.document.write(`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>${PRINT_STYLES}</style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <section class="sheet">${characters.map(renderCard).join('')}</section>
+    <footer>${escapeHtml(marvelAttribution())}</footer>
+    <script>window.addEventListener('load', function () { window.print(); });</script>
+  </body>
+</html>`);
+  printWindow.document.close();
+  return true;
+};
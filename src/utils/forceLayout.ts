@@ -0,0 +1,129 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  iterations: number;
+}
+
+const defaultOptions: ForceLayoutOptions = {
+  width: 960,
+  height: 640,
+  iterations: 220,
+};
+
+// Small deterministic hash so a node lands in the same starting spot on every render.
+const hashToUnit = (value: string): number => {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) % 10000) / 10000;
+};
+
+/**
+ * Fruchterman–Reingold layout. Nodes that already have a position start from it and
+ * new nodes start next to a placed neighbour, so expanding the graph does not reshuffle it.
+ */
+export const runForceLayout = (
+  nodeKeys: string[],
+  edges: [string, string][],
+  previous: Map<string, Point> = new Map(),
+  overrides: Partial<ForceLayoutOptions> = {}
+): Map<string, Point> => {
+  const { width, height, iterations } = { ...defaultOptions, ...overrides };
+  const positions = new Map<string, Point>();
+
+  if (nodeKeys.length === 0) {
+    return positions;
+  }
+
+  const neighbors = new Map<string, string[]>();
+  edges.forEach(([source, target]) => {
+    neighbors.set(source, [...(neighbors.get(source) ?? []), target]);
+    neighbors.set(target, [...(neighbors.get(target) ?? []), source]);
+  });
+
+  nodeKeys.forEach((key, index) => {
+    const known = previous.get(key);
+    if (known) {
+      positions.set(key, { ...known });
+      return;
+    }
+
+    const anchorKey = (neighbors.get(key) ?? []).find((neighbor) => previous.has(neighbor) || positions.has(neighbor));
+    const anchor = anchorKey ? previous.get(anchorKey) ?? positions.get(anchorKey) : undefined;
+    const angle = hashToUnit(key) * Math.PI * 2;
+
+    if (anchor) {
+      positions.set(key, { x: anchor.x + Math.cos(angle) * 60, y: anchor.y + Math.sin(angle) * 60 });
+    } else if (index === 0) {
+      positions.set(key, { x: width / 2, y: height / 2 });
+    } else {
+      const radius = Math.min(width, height) / 3;
+      positions.set(key, { x: width / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius });
+    }
+  });
+
+  const area = width * height;
+  const ideal = Math.sqrt(area / nodeKeys.length) * 0.75;
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step += 1) {
+    const displacement = new Map<string, Point>(nodeKeys.map((key) => [key, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < nodeKeys.length; i += 1) {
+      for (let j = i + 1; j < nodeKeys.length; j += 1) {
+        const a = positions.get(nodeKeys[i]) as Point;
+        const b = positions.get(nodeKeys[j]) as Point;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (ideal * ideal) / distance;
+        const da = displacement.get(nodeKeys[i]) as Point;
+        const db = displacement.get(nodeKeys[j]) as Point;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(([source, target]) => {
+      const a = positions.get(source);
+      const b = positions.get(target);
+      if (!a || !b) {
+        return;
+      }
+
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / ideal;
+      const da = displacement.get(source) as Point;
+      const db = displacement.get(target) as Point;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+
+    for (const key of nodeKeys) {
+      const position = positions.get(key) as Point;
+      const delta = displacement.get(key) as Point;
+      const length = Math.max(Math.hypot(delta.x, delta.y), 0.01);
+      const limited = Math.min(length, temperature);
+      position.x = Math.min(width - 20, Math.max(20, position.x + (delta.x / length) * limited));
+      position.y = Math.min(height - 20, Math.max(20, position.y + (delta.y / length) * limited));
+    }
+
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  return positions;
+};
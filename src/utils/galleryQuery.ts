@@ -0,0 +1,115 @@
+import type { CharacterSearchParams } from '../api/marvel';
+import type { PickerKind } from '../components/ResourcePicker';
+import type { IndexedCharacter } from './characterIndex';
+import type { CountRange } from './characterStats';
+import { hasImage } from './marvelImages';
+
+export type MatchMode = 'any' | 'all';
+
+export type GallerySelection = Record<PickerKind, number[]>;
+
+export type MissingField = 'description' | 'image';
+
+export type IndexFilter = {
+  comics: CountRange | null;
+  events: CountRange | null;
+  missing: MissingField | null;
+};
+
+// Same order as the gallery's resource picker.
+const FILTER_KINDS: PickerKind[] = ['series', 'events', 'comics', 'stories'];
+
+// Each listed id is fetched on its own, so longer lists are cut short.
+export const GALLERY_ID_LIMIT = 200;
+
+// `source=index` lists the characters loaded in this browser instead of asking the API, and narrows them with the
+// range and missing-field params below; the statistics page links here so its bars open exactly what they count.
+export const INDEX_SOURCE = 'index';
+export const INDEX_FILTER_PARAMS = ['source', 'comicRange', 'eventRange', 'missing'];
+
+export const parseIds = (values: string[]): number[] =>
+  Array.from(new Set(values.map(Number).filter((id) => Number.isInteger(id) && id > 0)));
+
+export const readGallerySelection = (searchParams: URLSearchParams): GallerySelection =>
+  FILTER_KINDS.reduce<GallerySelection>(
+    (result, kind) => ({ ...result, [kind]: parseIds(searchParams.getAll(kind).join(',').split(',')) }),
+    { series: [], events: [], comics: [], stories: [] }
+  );
+
+// The API ANDs separate parameters and ORs the ids inside one, so some combinations need several queries.
+export const buildGalleryQueries = (
+  selection: GallerySelection,
+  mode: MatchMode,
+  since: string
+): CharacterSearchParams[] => {
+  const base: CharacterSearchParams = { orderBy: '-modified', modifiedSince: since || undefined };
+  const kinds = FILTER_KINDS.filter((kind) => selection[kind].length > 0);
+
+  if (kinds.length === 0) {
+    return [base];
+  }
+
+  if (mode === 'all') {
+    if (kinds.every((kind) => selection[kind].length === 1)) {
+      return [kinds.reduce<CharacterSearchParams>((query, kind) => ({ ...query, [kind]: String(selection[kind][0]) }), base)];
+    }
+    return kinds.flatMap((kind) => selection[kind].map((id) => ({ ...base, [kind]: String(id) })));
+  }
+
+  return kinds.map((kind) => ({ ...base, [kind]: selection[kind].join(',') }));
+};
+
+const parseRange = (value: string | null): CountRange | null => {
+  const match = value?.match(/^(\d+)-(\d*)$/);
+  return match ? { min: Number(match[1]), max: match[2] ? Number(match[2]) : null } : null;
+};
+
+export const formatRange = (range: CountRange): string => `${range.min}-${range.max ?? ''}`;
+
+export const readIndexFilter = (searchParams: URLSearchParams): IndexFilter | null => {
+  if (searchParams.get('source') !== INDEX_SOURCE) {
+    return null;
+  }
+  const missing = searchParams.get('missing');
+  return {
+    comics: parseRange(searchParams.get('comicRange')),
+    events: parseRange(searchParams.get('eventRange')),
+    missing: missing === 'description' || missing === 'image' ? missing : null,
+  };
+};
+
+export const buildIndexGalleryLink = (params: Record<string, string>): string =>
+  `/gallery?${new URLSearchParams({ source: INDEX_SOURCE, ...params }).toString()}`;
+
+const inRange = (value: number, range: CountRange | null) =>
+  !range || (value >= range.min && (range.max === null || value <= range.max));
+
+export const filterIndexedCharacters = (characters: IndexedCharacter[], filter: IndexFilter): IndexedCharacter[] =>
+  characters.filter(
+    (character) =>
+      inRange(character.comics, filter.comics) &&
+      inRange(character.events, filter.events) &&
+      (filter.missing !== 'description' || !character.description) &&
+      (filter.missing !== 'image' || !hasImage(character.thumbnail))
+  );
+
+const describeRange = (range: CountRange, unit: string): string => {
+  if (range.max === null) {
+    return `${range.min.toLocaleString()}+ ${unit}s`;
+  }
+  if (range.max === range.min) {
+    return `${range.min.toLocaleString()} ${range.min === 1 ? unit : `${unit}s`}`;
+  }
+  return `${range.min.toLocaleString()}–${range.max.toLocaleString()} ${unit}s`;
+};
+
+// Reads as the end of "Showing the characters loaded in this browser…".
+export const describeIndexFilter = (filter: IndexFilter): string => {
+  const parts = [
+    filter.comics && `with ${describeRange(filter.comics, 'comic')}`,
+    filter.events && `with ${describeRange(filter.events, 'event')}`,
+    filter.missing === 'description' && 'without a description',
+    filter.missing === 'image' && 'without an image',
+  ].filter(Boolean);
+  return parts.length > 0 ? ` ${parts.join(' and ')}` : '';
+};
@@ -0,0 +1,21 @@
+import { parseImportList } from './importList';
+
+test('splits lines and commas and drops blanks and repeats', () => {
+  expect(parseImportList('Storm\n  spider-man , 1009368\n\n"Storm"\nstorm')).toEqual([
+    'Storm',
+    'spider-man',
+    '1009368',
+  ]);
+});
+
+test('reads only the id column from an exported CSV', () => {
+  const csv = [
+    'id,name,comics,events,series,thumbnail_url,marvel_urls',
+    '1009629,"Storm, Ororo",936,28,,https://example.com/storm.jpg,',
+    '1009368,Iron Man,2600,30,,https://example.com/iron-man.jpg,',
+    '',
+    'Data provided by Marvel. © 2026 MARVEL',
+  ].join('\r\n');
+
+  expect(parseImportList(csv)).toEqual(['1009629', '1009368']);
+});
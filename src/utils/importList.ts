@@ -0,0 +1,23 @@
+// Splits pasted or uploaded text into lookup entries. Accepts one entry per line, comma-separated
+// entries, or a CSV that we exported ourselves (an `id,name,...` header), in which case only the ids are used.
+export const parseImportList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0]?.trim().toLowerCase() ?? '';
+
+  const entries = header.startsWith('id,name')
+    ? lines
+        .slice(1)
+        .map((line) => line.split(',')[0].trim())
+        .filter((cell) => /^\d+$/.test(cell))
+    : lines.flatMap((line) => line.split(',')).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = entry.toLowerCase();
+    if (!entry || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
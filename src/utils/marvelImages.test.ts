@@ -0,0 +1,29 @@
+import { buildImageUrl, buildSrcSet } from './marvelImages';
+
+const storm = { path: 'http://i.annihil.us/u/prod/marvel/i/mg/6/40/526963dad214d', extension: 'jpg' };
+
+test('picks the smallest variant at least as wide as requested, over https', () => {
+  expect(buildImageUrl(storm, 'standard', 96)).toBe(
+    'https://i.annihil.us/u/prod/marvel/i/mg/6/40/526963dad214d/standard_medium.jpg'
+  );
+  expect(buildImageUrl(storm, 'portrait')).toBe(
+    'https://i.annihil.us/u/prod/marvel/i/mg/6/40/526963dad214d/portrait_uncanny.jpg'
+  );
+});
+
+test('falls back to the Marvel placeholder for missing images', () => {
+  const missing = { path: 'http://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available', extension: 'jpg' };
+
+  expect(buildImageUrl(null, 'landscape')).toContain('image_not_available/landscape_incredible.jpg');
+  expect(buildImageUrl(missing, 'portrait', 50)).toBe(
+    'https://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available/portrait_small.jpg'
+  );
+});
+
+test('lists every variant of a shape with its width', () => {
+  const entries = buildSrcSet(storm, 'portrait').split(', ');
+
+  expect(entries).toHaveLength(6);
+  expect(entries[0]).toMatch(/portrait_small\.jpg 50w$/);
+  expect(entries[5]).toMatch(/portrait_uncanny\.jpg 300w$/);
+});
@@ -0,0 +1,69 @@
+import type { MarvelImage } from '../api/marvel';
+
+export type ImageShape = 'portrait' | 'standard' | 'landscape';
+
+type ImageVariant = {
+  name: string;
+  width: number;
+};
+
+// Marvel serves each image at fixed sizes, named `<shape>_<size>`; widths are in CSS pixels.
+const VARIANTS: Record<ImageShape, ImageVariant[]> = {
+  portrait: [
+    { name: 'portrait_small', width: 50 },
+    { name: 'portrait_medium', width: 100 },
+    { name: 'portrait_xlarge', width: 150 },
+    { name: 'portrait_fantastic', width: 168 },
+    { name: 'portrait_incredible', width: 216 },
+    { name: 'portrait_uncanny', width: 300 },
+  ],
+  standard: [
+    { name: 'standard_small', width: 65 },
+    { name: 'standard_medium', width: 100 },
+    { name: 'standard_large', width: 140 },
+    { name: 'standard_amazing', width: 180 },
+    { name: 'standard_xlarge', width: 200 },
+    { name: 'standard_fantastic', width: 250 },
+  ],
+  landscape: [
+    { name: 'landscape_small', width: 120 },
+    { name: 'landscape_medium', width: 175 },
+    { name: 'landscape_large', width: 190 },
+    { name: 'landscape_amazing', width: 250 },
+    { name: 'landscape_xlarge', width: 270 },
+    { name: 'landscape_incredible', width: 464 },
+  ],
+};
+
+// Marvel's own placeholder; it is published in every variant, so srcset works for it too.
+const PLACEHOLDER: MarvelImage = {
+  path: 'https://i.annihil.us/u/prod/marvel/i/mg/b/40/image_not_available',
+  extension: 'jpg',
+};
+
+export const ensureHttps = (url: string) => (url.startsWith('http://') ? url.replace('http://', 'https://') : url);
+
+export const hasImage = (thumbnail: MarvelImage | null | undefined): thumbnail is MarvelImage =>
+  Boolean(thumbnail?.path && !thumbnail.path.includes('image_not_available'));
+
+const resolve = (thumbnail: MarvelImage | null | undefined): MarvelImage =>
+  hasImage(thumbnail) ? thumbnail : PLACEHOLDER;
+
+const variantUrl = (image: MarvelImage, variant: string) =>
+  `${ensureHttps(image.path)}/${variant}.${image.extension}`;
+
+// Picks the smallest variant at least `width` wide, or the largest one available.
+export const buildImageUrl = (
+  thumbnail: MarvelImage | null | undefined,
+  shape: ImageShape,
+  width = Number.POSITIVE_INFINITY
+): string => {
+  const variants = VARIANTS[shape];
+  const variant = variants.find((entry) => entry.width >= width) ?? variants[variants.length - 1];
+  return variantUrl(resolve(thumbnail), variant.name);
+};
+
+export const buildSrcSet = (thumbnail: MarvelImage | null | undefined, shape: ImageShape): string => {
+  const image = resolve(thumbnail);
+  return VARIANTS[shape].map((variant) => `${variantUrl(image, variant.name)} ${variant.width}w`).join(', ');
+};
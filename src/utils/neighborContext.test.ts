@@ -0,0 +1,40 @@
+import { detailPath, describeNeighborContext, parseNeighborContext } from './neighborContext';
+
+test('rebuilds search and gallery contexts from the page a detail link came from', () => {
+  const search = parseNeighborContext('/list?q=Spider&sort=comics-desc,name-asc');
+  expect(search).toEqual({
+    kind: 'search',
+    query: 'Spider',
+    sort: [
+      { field: 'comics', direction: 'desc' },
+      { field: 'name', direction: 'asc' },
+    ],
+    fuzzy: false,
+  });
+  expect(search && describeNeighborContext(search)).toBe("in 'Spider' search");
+
+  expect(parseNeighborContext('/gallery?series=1,2')).toEqual({
+    kind: 'gallery',
+    query: { orderBy: '-modified', modifiedSince: undefined, series: '1,2' },
+    filtered: true,
+  });
+  expect(parseNeighborContext('/gallery?series=1&events=2&mode=any')).toMatchObject({ query: null });
+  expect(parseNeighborContext('/gallery?activity=legend')).toMatchObject({ query: null, filtered: true });
+});
+
+test('reads roster and comparison contexts and ignores other pages', () => {
+  expect(parseNeighborContext('/teams#team-abc')).toEqual({ kind: 'team', teamId: 'abc' });
+  expect(parseNeighborContext('/teams#favorites')).toEqual({ kind: 'favorites' });
+  expect(parseNeighborContext('/compare?ids=5,3,5')).toEqual({ kind: 'compare', ids: [5, 3] });
+  expect(parseNeighborContext('/stats')).toBeNull();
+  expect(parseNeighborContext('/list')).toBeNull();
+});
+
+test('encodes the origin and position into detail links', () => {
+  const path = detailPath(7, '/list?q=Spider&page=2', 21);
+  const params = new URLSearchParams(path.split('?')[1]);
+
+  expect(path.startsWith('/detail/7?')).toBe(true);
+  expect(params.get('from')).toBe('/list?q=Spider&page=2');
+  expect(params.get('at')).toBe('21');
+});
@@ -0,0 +1,88 @@
+import type { CharacterSearchParams } from '../api/marvel';
+import { parseSortKeys, type SortKey } from './characterSort';
+import { INDEX_FILTER_PARAMS, buildGalleryQueries, parseIds, readGallerySelection } from './galleryQuery';
+
+// The list a character page was opened from, as far as it can be rebuilt from that page's URL.
+export type NeighborContext =
+  | { kind: 'search'; query: string; sort: SortKey[]; fuzzy: boolean }
+  // `query` is null when the gallery's filters can't be replayed as one paged API query.
+  | { kind: 'gallery'; query: CharacterSearchParams | null; filtered: boolean }
+  | { kind: 'team'; teamId: string }
+  | { kind: 'favorites' }
+  | { kind: 'compare'; ids: number[] };
+
+const GALLERY_FILTER_PARAMS = [
+  'series',
+  'events',
+  'comics',
+  'stories',
+  'since',
+  'ids',
+  'activity',
+  ...INDEX_FILTER_PARAMS,
+];
+
+export const parseNeighborContext = (from: string | null): NeighborContext | null => {
+  if (!from) {
+    return null;
+  }
+
+  const [location, hash = ''] = from.split('#');
+  const [path, search = ''] = location.split('?');
+  const params = new URLSearchParams(search);
+
+  switch (path) {
+    case '/list': {
+      const query = (params.get('q') ?? '').trim();
+      return query
+        ? { kind: 'search', query, sort: parseSortKeys(params.get('sort')), fuzzy: params.get('match') === 'fuzzy' }
+        : null;
+    }
+    case '/gallery': {
+      const filtered = GALLERY_FILTER_PARAMS.some((name) => params.has(name));
+      // Imported id lists, loaded-character lists and activity tiers are resolved in the browser, so there is no
+      // single query to page.
+      if (params.has('ids') || params.has('activity') || params.has('source')) {
+        return { kind: 'gallery', query: null, filtered };
+      }
+      const mode = params.get('mode') === 'all' ? 'all' : 'any';
+      const queries = buildGalleryQueries(readGallerySelection(params), mode, params.get('since') ?? '');
+      return { kind: 'gallery', query: queries.length === 1 ? queries[0] : null, filtered };
+    }
+    case '/teams':
+      if (hash === 'favorites') {
+        return { kind: 'favorites' };
+      }
+      return hash.startsWith('team-') ? { kind: 'team', teamId: hash.slice('team-'.length) } : null;
+    case '/compare': {
+      const ids = parseIds((params.get('ids') ?? '').split(','));
+      return ids.length > 0 ? { kind: 'compare', ids } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const describeNeighborContext = (context: NeighborContext, teamName?: string): string => {
+  switch (context.kind) {
+    case 'search':
+      return `in '${context.query}' search`;
+    case 'gallery':
+      return context.filtered ? 'in the filtered gallery' : 'in the gallery';
+    case 'team':
+      return `in team '${teamName ?? 'Unknown'}'`;
+    case 'favorites':
+      return 'in favorites';
+    case 'compare':
+      return 'in the comparison';
+  }
+};
+
+// Detail links carry their origin and position in the URL, so Previous/Next survive a reload.
+export const detailPath = (id: number, from: string, at?: number): string => {
+  const params = new URLSearchParams({ from });
+  if (at !== undefined) {
+    params.set('at', String(at));
+  }
+  return `/detail/${id}?${params.toString()}`;
+};
@@ -0,0 +1,49 @@
+import {
+  SEARCH_HISTORY_STORAGE_KEY,
+  addSavedSearch,
+  clearRecentSearches,
+  emptySearchHistory,
+  loadSearchHistory,
+  orderRecentSearches,
+  recordSearch,
+  saveSearchHistory,
+  togglePinnedSearch,
+} from './searchHistory';
+
+const record = (queries: string[], start = emptySearchHistory()) =>
+  queries.reduce((state, query) => recordSearch(state, query), start);
+
+test('keeps the ten most recent queries, newest first and without duplicates', () => {
+  const history = record(Array.from({ length: 12 }, (_, index) => `query ${index}`).concat('Query 5 '));
+
+  expect(history.recent).toHaveLength(10);
+  expect(history.recent[0].query).toBe('Query 5');
+  expect(history.recent.filter((entry) => entry.query.toLowerCase() === 'query 5')).toHaveLength(1);
+  expect(history.recent.map((entry) => entry.query)).not.toContain('query 1');
+});
+
+test('pinned queries survive the limit and clearing the history', () => {
+  const pinned = togglePinnedSearch(record(['storm']), 'Storm');
+  const busy = record(Array.from({ length: 15 }, (_, index) => `query ${index}`), pinned);
+
+  expect(orderRecentSearches(busy.recent)[0]).toMatchObject({ query: 'storm', pinned: true });
+  expect(clearRecentSearches(busy).recent.map((entry) => entry.query)).toEqual(['storm']);
+});
+
+test('saving under an existing name replaces that search', () => {
+  const first = addSavedSearch(emptySearchHistory(), { name: 'Mutants', query: 'x', sort: 'name-asc' });
+  const second = addSavedSearch(first, { name: 'mutants', query: 'wolv', sort: 'comics-desc' });
+
+  expect(second.saved).toHaveLength(1);
+  expect(second.saved[0]).toMatchObject({ id: first.saved[0].id, query: 'wolv', sort: 'comics-desc' });
+});
+
+test('round-trips through storage and ignores unknown versions', () => {
+  const history = addSavedSearch(record(['thor']), { name: '', query: 'hulk', sort: 'name-desc' });
+  saveSearchHistory(history, window.localStorage);
+
+  expect(loadSearchHistory(window.localStorage)).toEqual(history);
+
+  window.localStorage.setItem(SEARCH_HISTORY_STORAGE_KEY, JSON.stringify({ version: 9, recent: [] }));
+  expect(loadSearchHistory(window.localStorage)).toEqual(emptySearchHistory());
+});
@@ -0,0 +1,133 @@
+import { getLocalStorage, readStoredJson, writeStoredJson } from './storage';
+
+export interface RecentSearch {
+  query: string;
+  pinned: boolean;
+  lastUsedAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  // A ListView sort key; kept as a string so an unknown key from an older build falls back to the default.
+  sort: string;
+  createdAt: string;
+}
+
+export interface SearchHistoryState {
+  recent: RecentSearch[];
+  saved: SavedSearch[];
+}
+
+interface StoredSearchHistoryV1 extends SearchHistoryState {
+  version: 1;
+}
+
+export const SEARCH_HISTORY_STORAGE_KEY = 'marvel-explorer:search-history';
+const CURRENT_VERSION = 1;
+// Pinned searches never count towards the limit.
+const RECENT_LIMIT = 10;
+
+export const emptySearchHistory = (): SearchHistoryState => ({ recent: [], saved: [] });
+
+const sameQuery = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isRecentSearch = (value: unknown): value is RecentSearch => {
+  const candidate = value as RecentSearch | null;
+  return Boolean(candidate) && typeof candidate?.query === 'string' && candidate.query.trim() !== '';
+};
+
+const isSavedSearch = (value: unknown): value is SavedSearch => {
+  const candidate = value as SavedSearch | null;
+  return (
+    Boolean(candidate) &&
+    typeof candidate?.id === 'string' &&
+    typeof candidate?.name === 'string' &&
+    typeof candidate?.query === 'string'
+  );
+};
+
+export const loadSearchHistory = (storage: Storage | null = getLocalStorage()): SearchHistoryState => {
+  const parsed = readStoredJson(SEARCH_HISTORY_STORAGE_KEY, storage) as Partial<StoredSearchHistoryV1> | null;
+  if (parsed?.version !== CURRENT_VERSION) {
+    return emptySearchHistory();
+  }
+
+  return {
+    recent: Array.isArray(parsed.recent)
+      ? parsed.recent.filter(isRecentSearch).map((entry) => ({ ...entry, pinned: entry.pinned === true }))
+      : [],
+    saved: Array.isArray(parsed.saved)
+      ? parsed.saved.filter(isSavedSearch).map((entry) => ({ ...entry, sort: String(entry.sort ?? '') }))
+      : [],
+  };
+};
+
+export const saveSearchHistory = (state: SearchHistoryState, storage: Storage | null = getLocalStorage()) => {
+  const stored: StoredSearchHistoryV1 = { version: CURRENT_VERSION, ...state };
+  writeStoredJson(SEARCH_HISTORY_STORAGE_KEY, stored, storage);
+};
+
+// Moves the query to the front, keeping its pin, and drops the oldest unpinned entries past the limit.
+export const recordSearch = (state: SearchHistoryState, query: string, now = new Date()): SearchHistoryState => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return state;
+  }
+
+  const existing = state.recent.find((entry) => sameQuery(entry.query, trimmed));
+  const others = state.recent.filter((entry) => entry !== existing);
+  const recent = [{ query: trimmed, pinned: existing?.pinned ?? false, lastUsedAt: now.toISOString() }, ...others];
+
+  const kept = recent.filter((entry) => !entry.pinned).slice(0, RECENT_LIMIT);
+  return {
+    ...state,
+    recent: recent.filter((entry) => entry.pinned || kept.includes(entry)),
+  };
+};
+
+export const togglePinnedSearch = (state: SearchHistoryState, query: string): SearchHistoryState => ({
+  ...state,
+  recent: state.recent.map((entry) => (sameQuery(entry.query, query) ? { ...entry, pinned: !entry.pinned } : entry)),
+});
+
+export const clearRecentSearches = (state: SearchHistoryState): SearchHistoryState => ({
+  ...state,
+  recent: state.recent.filter((entry) => entry.pinned),
+});
+
+// Pinned searches first, then the rest by recency.
+export const orderRecentSearches = (recent: RecentSearch[]): RecentSearch[] => [
+  ...recent.filter((entry) => entry.pinned),
+  ...recent.filter((entry) => !entry.pinned),
+];
+
+const createSavedSearchId = () => `search-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Saving under an existing name replaces that search instead of adding a near-duplicate.
+export const addSavedSearch = (
+  state: SearchHistoryState,
+  search: Pick<SavedSearch, 'name' | 'query' | 'sort'>,
+  now = new Date()
+): SearchHistoryState => {
+  const name = search.name.trim() || search.query.trim();
+  const existing = state.saved.find((entry) => sameQuery(entry.name, name));
+  const entry: SavedSearch = {
+    id: existing?.id ?? createSavedSearchId(),
+    name,
+    query: search.query.trim(),
+    sort: search.sort,
+    createdAt: existing?.createdAt ?? now.toISOString(),
+  };
+
+  return {
+    ...state,
+    saved: existing ? state.saved.map((item) => (item === existing ? entry : item)) : [...state.saved, entry],
+  };
+};
+
+export const removeSavedSearch = (state: SearchHistoryState, id: string): SearchHistoryState => ({
+  ...state,
+  saved: state.saved.filter((entry) => entry.id !== id),
+});
@@ -0,0 +1,45 @@
+export const getLocalStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch (err) {
+    // Safari private mode and sandboxed iframes throw on access.
+    return null;
+  }
+};
+
+export const getSessionStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' && window.sessionStorage ? window.sessionStorage : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+// The parsed value under `key`, or null when storage is unavailable or the entry is missing or unreadable.
+export const readStoredJson = (key: string, storage: Storage | null = getLocalStorage()): unknown => {
+  if (!storage) {
+    return null;
+  }
+
+  try {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+// Quota or privacy-mode failures only cost persistence; callers keep working from their in-memory state.
+// Returns whether the write stuck, for callers that can shrink the value and try again.
+export const writeStoredJson = (key: string, value: unknown, storage: Storage | null = getLocalStorage()): boolean => {
+  if (!storage) {
+    return false;
+  }
+
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
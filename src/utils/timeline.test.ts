@@ -0,0 +1,37 @@
+import type { MarvelComic, MarvelEvent } from '../api/marvel';
+import { groupComicsByYear, toTimelineEvents, yearLabelStep } from './timeline';
+
+const comic = (id: number, date: string) =>
+  ({ id, title: `Comic ${id}`, dates: [{ type: 'onsaleDate', date }] }) as MarvelComic;
+
+test('groups issues per year, fills the gaps and sets undated issues aside', () => {
+  const { buckets, undated } = groupComicsByYear([
+    comic(1, '1965-06-10T00:00:00-0500'),
+    comic(2, '1963-01-01T00:00:00-0500'),
+    comic(3, '1965-02-10T00:00:00-0500'),
+    comic(4, '-0001-11-30T00:00:00-0500'),
+  ]);
+
+  expect(buckets.map((bucket) => [bucket.year, bucket.comics.map((issue) => issue.id)])).toEqual([
+    [1963, [2]],
+    [1964, []],
+    [1965, [3, 1]],
+  ]);
+  expect(undated.map((issue) => issue.id)).toEqual([4]);
+});
+
+test('widens the axis to fit events and reads their span', () => {
+  const events = toTimelineEvents([
+    { id: 10, title: 'Secret Wars', start: '1984-05-01 00:00:00', end: '1985-04-01 00:00:00' },
+    { id: 11, title: 'Undated', start: null, end: null },
+  ] as MarvelEvent[]);
+
+  expect(events).toEqual([{ id: 10, title: 'Secret Wars', startYear: 1984, endYear: 1985 }]);
+  expect(groupComicsByYear([comic(1, '1982-01-10T00:00:00-0500')], [1984]).buckets).toHaveLength(3);
+});
+
+test('chooses round label steps for long careers', () => {
+  expect(yearLabelStep(8)).toBe(1);
+  expect(yearLabelStep(60)).toBe(5);
+  expect(yearLabelStep(85)).toBe(10);
+});
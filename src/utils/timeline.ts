@@ -0,0 +1,80 @@
+import type { MarvelComic, MarvelEvent } from '../api/marvel';
+
+export interface YearBucket {
+  year: number;
+  comics: MarvelComic[];
+}
+
+export interface TimelineEvent {
+  id: number;
+  title: string;
+  startYear: number;
+  endYear: number;
+}
+
+export interface ComicTimeline {
+  buckets: YearBucket[];
+  // Issues without a usable on-sale date; counted, but kept off the axis.
+  undated: MarvelComic[];
+}
+
+// Marvel dates look like `1963-03-10T00:00:00-0500`. Reading the year from the text keeps time zones from moving
+// New Year's Day issues into the previous year, and skips placeholders such as `-0001-11-30`.
+const readYear = (value: string | null | undefined): number | null => {
+  const match = value?.match(/^(\d{4})-/);
+  const year = match ? Number(match[1]) : 0;
+  return year >= 1900 ? year : null;
+};
+
+export const onsaleDate = (comic: MarvelComic): string | null =>
+  comic.dates?.find((entry) => entry.type === 'onsaleDate')?.date ?? null;
+
+export const comicYear = (comic: MarvelComic): number | null => readYear(onsaleDate(comic));
+
+export const toTimelineEvents = (events: MarvelEvent[]): TimelineEvent[] =>
+  events
+    .map((event) => {
+      const startYear = readYear(event.start);
+      if (startYear === null) {
+        return null;
+      }
+      const endYear = Math.max(startYear, readYear(event.end) ?? startYear);
+      return { id: event.id, title: event.title, startYear, endYear };
+    })
+    .filter((event): event is TimelineEvent => event !== null)
+    .sort((a, b) => a.startYear - b.startYear || a.title.localeCompare(b.title));
+
+// One bucket per year from the earliest to the latest year seen, including the empty years in between, so the
+// histogram shows gaps in a character's run. `extraYears` widens the range, e.g. to fit event start and end years.
+export const groupComicsByYear = (comics: MarvelComic[], extraYears: number[] = []): ComicTimeline => {
+  const byYear = new Map<number, MarvelComic[]>();
+  const undated: MarvelComic[] = [];
+
+  comics.forEach((comic) => {
+    const year = comicYear(comic);
+    if (year === null) {
+      undated.push(comic);
+    } else {
+      byYear.set(year, [...(byYear.get(year) ?? []), comic]);
+    }
+  });
+
+  const years = [...Array.from(byYear.keys()), ...extraYears];
+  if (years.length === 0) {
+    return { buckets: [], undated };
+  }
+
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  const buckets = Array.from({ length: last - first + 1 }, (_, index) => {
+    const year = first + index;
+    const issues = (byYear.get(year) ?? []).sort((a, b) => (onsaleDate(a) ?? '').localeCompare(onsaleDate(b) ?? ''));
+    return { year, comics: issues };
+  });
+
+  return { buckets, undated };
+};
+
+// Picks a label step so a long career still gets roughly a dozen axis labels on round years.
+export const yearLabelStep = (yearCount: number, maxLabels = 12): number =>
+  [1, 2, 5, 10, 20, 25, 50].find((step) => yearCount / step <= maxLabels) ?? 100;